@@ -0,0 +1,284 @@
+// src/AliasTools.ts
+import { z } from "zod";
+import { ResponseFormatter } from "./utils/response";
+import getToolHints from "./utils/toolHints";
+import { extractEtag } from "./utils/verify";
+import type { ToolContext } from "./types";
+import type { AzureSearchClient } from "./azure-search-client";
+import { IndexNameSchema } from "./schemas";
+import { DEFAULT_TIMEOUT_MS } from "./constants";
+
+// Alias names follow the same rules as index names
+const AliasNameSchema = IndexNameSchema;
+
+type CompatibilityReport = {
+  compatible: boolean;
+  issues: string[];
+  warnings: string[];
+};
+
+/**
+ * Check that queries written against the current index keep working once the alias points at the
+ * candidate: same key field, every retrievable field still present with the same type, and every
+ * named suggester, scoring profile and semantic configuration still defined.
+ */
+function checkIndexCompatibility(current: any, candidate: any): CompatibilityReport {
+  const issues: string[] = [];
+  const warnings: string[] = [];
+
+  const currentFields: any[] = Array.isArray(current?.fields) ? current.fields : [];
+  const candidateFields = new Map<string, any>((candidate?.fields || []).map((f: any) => [f.name, f]));
+
+  const currentKey = currentFields.find((f) => f.key)?.name;
+  const candidateKey = (candidate?.fields || []).find((f: any) => f.key)?.name;
+  if (currentKey !== candidateKey) {
+    issues.push(`Key field differs: '${currentKey}' -> '${candidateKey}'`);
+  }
+
+  for (const field of currentFields) {
+    const next = candidateFields.get(field.name);
+    if (!next) {
+      if (field.retrievable !== false) issues.push(`Field '${field.name}' is missing from the new index`);
+      else warnings.push(`Non-retrievable field '${field.name}' is missing from the new index`);
+      continue;
+    }
+    if (next.type !== field.type) {
+      issues.push(`Field '${field.name}' changes type: ${field.type} -> ${next.type}`);
+    }
+    for (const flag of ["searchable", "filterable", "sortable", "facetable"] as const) {
+      if (field[flag] === true && next[flag] !== true) {
+        issues.push(`Field '${field.name}' is no longer ${flag}`);
+      }
+    }
+  }
+
+  const names = (items: any[] | undefined) => new Set<string>((items || []).map((i: any) => i?.name).filter(Boolean));
+  const compareNamed = (label: string, a: any[] | undefined, b: any[] | undefined) => {
+    const next = names(b);
+    for (const n of names(a)) {
+      if (!next.has(n)) issues.push(`${label} '${n}' is missing from the new index`);
+    }
+  };
+  compareNamed("Suggester", current?.suggesters, candidate?.suggesters);
+  compareNamed("Scoring profile", current?.scoringProfiles, candidate?.scoringProfiles);
+  compareNamed("Semantic configuration", current?.semantic?.configurations, candidate?.semantic?.configurations);
+
+  if (current?.defaultScoringProfile && current.defaultScoringProfile !== candidate?.defaultScoringProfile) {
+    warnings.push(`Default scoring profile changes: '${current.defaultScoringProfile}' -> '${candidate?.defaultScoringProfile ?? "none"}'`);
+  }
+
+  return { compatible: issues.length === 0, issues, warnings };
+}
+
+// The ETag feeds If-Match, so the read skips the response cache
+async function getAliasOrNull(client: AzureSearchClient, aliasName: string): Promise<any | null> {
+  try {
+    return await client.fresh().getAlias(aliasName);
+  } catch (e: any) {
+    const status = e?.statusCode ?? e?.response?.status;
+    if (status === 404) return null;
+    throw e;
+  }
+}
+
+/**
+ * Register index alias management tools.
+ * Tools:
+ *  - listAliases, getAlias
+ *  - createOrUpdateAlias, deleteAlias
+ *  - swapAlias (validated, ETag-guarded blue/green switch)
+ */
+export function registerAliasTools(server: any, context: ToolContext) {
+  const { getClient } = context;
+  const rf = new ResponseFormatter(() => {
+    const s = context.getSummarizer?.();
+    if (!s) return null;
+    return (text: string, maxTokens?: number) => s(text, maxTokens ?? 800);
+  });
+
+  // ---------------- ALIASES ----------------
+  server.tool("listAliases", "List index aliases and the index each one points to.", {}, getToolHints("GET"), async () => {
+    const client = getClient();
+    return rf.executeWithTimeout(
+      client.listAliases().then((aliases: unknown[]) => {
+        const items = (aliases as Array<{ name?: string; indexes?: string[] }>).map((a) => ({
+          name: a.name,
+          indexes: a.indexes || [],
+        }));
+        return { aliases: items, count: items.length };
+      }),
+      DEFAULT_TIMEOUT_MS,
+      "listAliases",
+      { tool: "listAliases" },
+    );
+  });
+
+  server.tool(
+    "getAlias",
+    "Get an alias definition, including its @odata.etag.",
+    { aliasName: AliasNameSchema },
+    getToolHints("GET"),
+    async ({ aliasName }: { aliasName: string }) => {
+      return rf.executeWithTimeout(() => getClient().getAlias(aliasName), DEFAULT_TIMEOUT_MS, "getAlias", { tool: "getAlias", aliasName });
+    },
+  );
+
+  server.tool(
+    "createOrUpdateAlias",
+    "Create an alias or repoint an existing one at a single index. Pass ifMatch with the alias ETag to avoid overwriting a concurrent change. For a validated zero-downtime switch, use swapAlias.",
+    {
+      aliasName: AliasNameSchema,
+      indexName: IndexNameSchema.describe("Index the alias should point to"),
+      ifMatch: z.string().optional().describe("ETag for optimistic concurrency control"),
+      ifNoneMatch: z.string().optional().describe("Use '*' to only create the alias if it does not exist"),
+    },
+    getToolHints("PUT"),
+    async ({ aliasName, indexName, ifMatch, ifNoneMatch }: any) => {
+      const client = getClient();
+      return rf.executeWithTimeout(
+        () => client.createOrUpdateAlias(aliasName, { indexes: [indexName] }, { ifMatch, ifNoneMatch }),
+        DEFAULT_TIMEOUT_MS,
+        "createOrUpdateAlias",
+        { tool: "createOrUpdateAlias", aliasName, indexName },
+      );
+    },
+  );
+
+  server.tool(
+    "deleteAlias",
+    "⚠️ DESTRUCTIVE: Delete an alias. Applications querying through the alias will fail until it is recreated. The underlying index is not affected.",
+    {
+      aliasName: AliasNameSchema,
+      ifMatch: z.string().optional().describe("ETag for optimistic concurrency control"),
+      confirmation: z.string().optional().describe("Type 'DELETE' to confirm deletion"),
+    },
+    getToolHints("DELETE"),
+    async ({ aliasName, ifMatch, confirmation }: any) => {
+      try {
+        if (confirmation !== "DELETE") {
+          return rf.formatSuccess({
+            success: false,
+            message: "Delete operation requires explicit confirmation. Please provide confirmation='DELETE'",
+          });
+        }
+
+        const client = getClient();
+        await rf.executeWithTimeout(client.deleteAlias(aliasName, { ifMatch }), DEFAULT_TIMEOUT_MS, "deleteAlias", {
+          tool: "deleteAlias",
+          aliasName,
+        });
+        return rf.formatSuccess({ success: true, message: `Alias ${aliasName} deleted` });
+      } catch (e) {
+        return rf.formatError(e, { tool: "deleteAlias", aliasName });
+      }
+    },
+  );
+
+  server.tool(
+    "swapAlias",
+    "Blue/green index swap: repoint an alias at a new index in one call. Verifies the new index is populated and schema-compatible with the index the alias currently targets, then updates the alias guarded by its ETag so a concurrent change is never overwritten. Use dryRun to see the checks without switching.",
+    {
+      aliasName: AliasNameSchema,
+      newIndexName: IndexNameSchema.describe("Index to switch the alias to"),
+      expectedCurrentIndex: z.string().optional().describe("Abort unless the alias currently points to this index"),
+      minDocumentCount: z.number().int().nonnegative().default(1).describe("Minimum documents required in the new index"),
+      minDocumentRatio: z
+        .number()
+        .min(0)
+        .optional()
+        .describe("Require newCount >= ratio * currentCount (e.g. 0.95 to tolerate a 5% drop)"),
+      allowIncompatible: z.boolean().default(false).describe("Swap even if schema compatibility issues are found"),
+      createIfMissing: z.boolean().default(false).describe("Create the alias if it does not exist yet"),
+      dryRun: z.boolean().default(false).describe("Run all checks but do not update the alias"),
+    },
+    getToolHints("PUT"),
+    async (params: any) => {
+      const { aliasName, newIndexName } = params;
+      const client = getClient();
+      const exec = rf.createToolExecutor<typeof params>("swapAlias", DEFAULT_TIMEOUT_MS);
+      return exec(
+        params,
+        async (p) => {
+          const alias = await getAliasOrNull(client, p.aliasName);
+          if (!alias && !p.createIfMissing) {
+            throw new Error(`Alias '${p.aliasName}' not found. Set createIfMissing=true to create it.`);
+          }
+
+          const etag = extractEtag(alias);
+          // Without an ETag the write could not detect a concurrent swap, so refuse it
+          if (alias && !etag) {
+            throw new Error(`Alias '${p.aliasName}' was returned without an @odata.etag; refusing to swap without If-Match`);
+          }
+          const currentIndex: string | undefined = alias?.indexes?.[0];
+          if (p.expectedCurrentIndex && currentIndex !== p.expectedCurrentIndex) {
+            throw new Error(`Alias '${p.aliasName}' points to '${currentIndex}', expected '${p.expectedCurrentIndex}'`);
+          }
+          if (currentIndex === p.newIndexName) {
+            return { success: true, changed: false, message: `Alias '${p.aliasName}' already points to '${p.newIndexName}'` };
+          }
+
+          const [candidate, candidateCount] = await Promise.all([
+            client.fresh().getIndex(p.newIndexName),
+            client.getDocumentCount(p.newIndexName),
+          ]);
+
+          const issues: string[] = [];
+          const warnings: string[] = [];
+          let currentCount: number | undefined;
+
+          if (candidateCount < p.minDocumentCount) {
+            issues.push(`New index '${p.newIndexName}' has ${candidateCount} documents (minimum ${p.minDocumentCount})`);
+          }
+
+          if (currentIndex) {
+            const [current, count] = await Promise.all([client.fresh().getIndex(currentIndex), client.getDocumentCount(currentIndex)]);
+            currentCount = count;
+            const compatibility = checkIndexCompatibility(current, candidate);
+            warnings.push(...compatibility.warnings);
+            if (!p.allowIncompatible) issues.push(...compatibility.issues);
+            else warnings.push(...compatibility.issues);
+
+            if (p.minDocumentRatio !== undefined && candidateCount < p.minDocumentRatio * count) {
+              issues.push(`New index has ${candidateCount} documents vs ${count} in '${currentIndex}' (ratio below ${p.minDocumentRatio})`);
+            }
+          }
+
+          const checks = {
+            currentIndex: currentIndex ?? null,
+            newIndex: p.newIndexName,
+            currentDocumentCount: currentCount ?? null,
+            newDocumentCount: candidateCount,
+            issues,
+            warnings,
+          };
+
+          if (issues.length > 0 && p.dryRun) {
+            return { success: false, changed: false, dryRun: true, message: "Alias swap would be blocked", issues, checks };
+          }
+          if (issues.length > 0) {
+            throw new Error(`Alias swap blocked:\n${issues.join("\n")}`);
+          }
+          if (p.dryRun) {
+            return { success: true, changed: false, dryRun: true, message: "All checks passed; alias not updated (dryRun)", checks };
+          }
+
+          const updated = await client.createOrUpdateAlias(
+            p.aliasName,
+            { indexes: [p.newIndexName] },
+            alias ? { ifMatch: etag! } : { ifNoneMatch: "*" },
+          );
+
+          return {
+            success: true,
+            changed: true,
+            message: `Alias '${p.aliasName}' now points to '${p.newIndexName}'${currentIndex ? ` (was '${currentIndex}')` : ""}`,
+            previousIndex: currentIndex ?? null,
+            checks,
+            alias: updated,
+          };
+        },
+        { tool: "swapAlias", aliasName, newIndexName },
+      );
+    },
+  );
+}
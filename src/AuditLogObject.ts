@@ -0,0 +1,29 @@
+// src/AuditLogObject.ts
+/**
+ * Singleton Durable Object holding the audit log for every MCP session.
+ * Session agents call it over RPC; see utils/audit-log.ts for the record format.
+ */
+import { DurableObject } from "cloudflare:workers";
+import { AuditStore, type AuditQuery, type AuditRecord } from "./utils/audit-log";
+import type { SqlExecutor } from "./types";
+
+export const AUDIT_LOG_OBJECT_NAME = "audit-log";
+
+export class AuditLog extends DurableObject {
+  private readonly store: AuditStore;
+
+  constructor(ctx: DurableObjectState, env: unknown) {
+    super(ctx, env);
+    const sql: SqlExecutor = (strings, ...values) =>
+      ctx.storage.sql.exec(strings.join("?"), ...values).toArray() as any[];
+    this.store = new AuditStore(sql);
+  }
+
+  async append(record: AuditRecord): Promise<void> {
+    this.store.append(record);
+  }
+
+  async query(filter: AuditQuery): Promise<AuditRecord[]> {
+    return this.store.query(filter);
+  }
+}
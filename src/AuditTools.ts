@@ -0,0 +1,64 @@
+// src/AuditTools.ts
+import { z } from "zod";
+import { ResponseFormatter } from "./utils/response";
+import getToolHints from "./utils/toolHints";
+import type { ToolContext } from "./types";
+import { DEFAULT_AUDIT_QUERY_LIMIT, MAX_AUDIT_QUERY_LIMIT } from "./utils/audit-log";
+import { DEFAULT_TIMEOUT_MS } from "./constants";
+
+const RECENT_AUDIT_RESOURCE_LIMIT = 100;
+
+/**
+ * Register the audit log query tool and resource. Records are written by installAuditTrail.
+ * Tools:
+ *  - queryAuditLog
+ * Resources:
+ *  - auditLog (latest records)
+ */
+export function registerAuditTools(server: any, context: ToolContext) {
+  const rf = new ResponseFormatter(() => {
+    const s = context.getSummarizer?.();
+    if (!s) return null;
+    return (text: string, maxTokens?: number) => s(text, maxTokens ?? 800);
+  });
+
+  const getAuditLog = () => {
+    if (!context.auditLog) throw new Error("Audit log is unavailable: no AUDIT_LOG binding or Durable Object SQLite storage");
+    return context.auditLog;
+  };
+
+  server.tool(
+    "queryAuditLog",
+    "Query the audit log of mutating tool calls (newest first): tool, sanitized arguments, outcome code, target ETag before/after, duration, session and user. Filter by time range, tool and object name.",
+    {
+      since: z.string().datetime().optional().describe("ISO 8601 start time (inclusive)"),
+      until: z.string().datetime().optional().describe("ISO 8601 end time (inclusive)"),
+      tool: z.string().optional().describe("Exact tool name, e.g. 'createOrUpdateIndex'"),
+      objectName: z.string().optional().describe("Name of the index, indexer, skillset, etc. the call targeted"),
+      outcome: z.enum(["success", "error"]).optional(),
+      sessionId: z.string().optional(),
+      limit: z.number().int().positive().max(MAX_AUDIT_QUERY_LIMIT).default(DEFAULT_AUDIT_QUERY_LIMIT),
+    },
+    getToolHints("GET"),
+    async (params: any) => {
+      const exec = rf.createToolExecutor<typeof params>("queryAuditLog", DEFAULT_TIMEOUT_MS);
+      return exec(params, async (p) => {
+        const records = await getAuditLog().query(p);
+        return { records, count: records.length };
+      });
+    },
+  );
+
+  server.resource("auditLog", "Most recent audit log records of mutating tool calls", async () => {
+    const records = await getAuditLog().query({ limit: RECENT_AUDIT_RESOURCE_LIMIT });
+    return {
+      contents: [
+        {
+          uri: "auditLog",
+          mimeType: "application/json",
+          text: JSON.stringify({ records, count: records.length }, null, 2),
+        },
+      ],
+    };
+  });
+}
@@ -6,6 +6,12 @@ import { elicitIfNeeded, mergeElicitedParams, needsElicitation } from "./utils/e
 import type { ToolContext } from "./types";
 import { DEFAULT_TIMEOUT_MS } from "./constants";
 import getToolHints from "./utils/toolHints";
+import {
+  buildAdlsGen2DataSource,
+  buildAzureSqlDataSource,
+  buildAzureTableDataSource,
+  buildCosmosDbDataSource,
+} from "./utils/data-source-builders";
 
 // MCP-compliant elicitation builders
 function createBlobDataSourceElicitation(): ElicitationRequest {
@@ -89,6 +95,7 @@ function createBlobSyncPlanElicitation(): ElicitationRequest {
  * Tools:
  *  - listDataSources, getDataSource
  *  - createOrUpdateBlobDataSource
+ *  - createOrUpdateCosmosDbDataSource, createOrUpdateSqlDataSource, createOrUpdateTableDataSource, createOrUpdateAdlsGen2DataSource
  *  - generateBlobSyncPlan
  */
 export function registerDataTools(server: any, context: ToolContext) {
@@ -229,6 +236,110 @@ export function registerDataTools(server: any, context: ToolContext) {
     },
   );
 
+  // ---------------- TYPED DATA SOURCE BUILDERS ----------------
+  // Each validates the connection string format and the change/deletion detection policies the type allows
+  const SoftDeleteParam = z
+    .object({
+      columnName: z.string().min(1).describe("Column (or metadata property) that flags deleted items"),
+      markerValue: z.string().min(1).describe("Value that marks an item as deleted, e.g. 'true'"),
+    })
+    .optional()
+    .describe("Soft-delete column deletion detection policy");
+
+  const writeDataSource = async (toolName: string, params: any, build: (p: any) => any) => {
+    const client = getClient();
+    const exec = rf.createToolExecutor<typeof params>(toolName, DEFAULT_TIMEOUT_MS);
+    // Keep the connection string out of error context
+    const { connectionString, ...safeParams } = params;
+    return exec(safeParams, async (p) => {
+      const definition = build({ ...p, connectionString });
+      const result = await client.createOrUpdateDataSource(p.name, definition);
+      return {
+        success: true,
+        message: `Data source '${p.name}' (${definition.type}) created/updated.`,
+        dataSource: result,
+        changeDetection: definition.dataChangeDetectionPolicy?.["@odata.type"] ?? null,
+        deletionDetection: definition.dataDeletionDetectionPolicy?.["@odata.type"] ?? null,
+      };
+    });
+  };
+
+  server.tool(
+    "createOrUpdateCosmosDbDataSource",
+    "Create or update an Azure Cosmos DB (NoSQL) data source. Incremental indexing uses the _ts high-water mark; a custom query must then filter and order on _ts (WHERE c._ts >= @HighWaterMark ORDER BY c._ts).",
+    {
+      name: z.string().min(1).describe("Data source name (unique within the Search service)"),
+      connectionString: z
+        .string()
+        .min(1)
+        .describe("AccountEndpoint=https://<account>.documents.azure.com:443/;AccountKey=...;Database=<db>, or ResourceId=...;Database=<db> for a managed identity"),
+      containerName: z.string().min(1).describe("Cosmos DB container (collection) name"),
+      query: z.string().optional().describe("Optional SQL query, e.g. SELECT c.id, c.title, c._ts FROM c WHERE c._ts >= @HighWaterMark ORDER BY c._ts"),
+      trackChanges: z.boolean().default(true).describe("Use the _ts high-water mark for incremental indexing"),
+      softDelete: SoftDeleteParam,
+      description: z.string().optional(),
+    },
+    getToolHints("POST" as const),
+    async (params: any) => writeDataSource("createOrUpdateCosmosDbDataSource", params, buildCosmosDbDataSource),
+  );
+
+  server.tool(
+    "createOrUpdateSqlDataSource",
+    "Create or update an Azure SQL Database data source over a table or view. Change detection: 'changeTracking' (SQL integrated change tracking, tables only, detects deletes itself) or 'highWaterMark' (a rowversion/last-updated column, optionally with a soft-delete column).",
+    {
+      name: z.string().min(1).describe("Data source name (unique within the Search service)"),
+      connectionString: z
+        .string()
+        .min(1)
+        .describe("Server=tcp:<server>.database.windows.net,1433;Database=<db>;User ID=...;Password=...;Encrypt=True, or Database=<db>;ResourceId=... for a managed identity"),
+      tableOrView: z.string().min(1).describe("Table or view name, e.g. dbo.Products"),
+      changeDetection: z.enum(["none", "changeTracking", "highWaterMark"]).default("none"),
+      highWaterMarkColumn: z.string().optional().describe("rowversion or last-updated column (changeDetection 'highWaterMark')"),
+      softDelete: SoftDeleteParam,
+      description: z.string().optional(),
+    },
+    getToolHints("POST" as const),
+    async (params: any) => writeDataSource("createOrUpdateSqlDataSource", params, buildAzureSqlDataSource),
+  );
+
+  server.tool(
+    "createOrUpdateTableDataSource",
+    "Create or update an Azure Table Storage data source. Incremental indexing uses the Timestamp high-water mark.",
+    {
+      name: z.string().min(1).describe("Data source name (unique within the Search service)"),
+      connectionString: z
+        .string()
+        .min(1)
+        .describe("DefaultEndpointsProtocol=https;AccountName=...;AccountKey=...;EndpointSuffix=core.windows.net, TableEndpoint=...;SharedAccessSignature=..., or ResourceId=..."),
+      tableName: z.string().min(1),
+      query: z.string().optional().describe("Optional OData filter, e.g. PartitionKey eq 'products'"),
+      trackChanges: z.boolean().default(true).describe("Use the Timestamp high-water mark for incremental indexing"),
+      softDelete: SoftDeleteParam,
+      description: z.string().optional(),
+    },
+    getToolHints("POST" as const),
+    async (params: any) => writeDataSource("createOrUpdateTableDataSource", params, buildAzureTableDataSource),
+  );
+
+  server.tool(
+    "createOrUpdateAdlsGen2DataSource",
+    "Create or update an Azure Data Lake Storage Gen2 data source over a file system (container), optionally limited to a folder. Changes are detected by last-modified time; deletes by a soft-delete metadata property or native blob soft delete.",
+    {
+      name: z.string().min(1).describe("Data source name (unique within the Search service)"),
+      connectionString: z
+        .string()
+        .min(1)
+        .describe("DefaultEndpointsProtocol=https;AccountName=...;AccountKey=...;EndpointSuffix=core.windows.net, BlobEndpoint=...;SharedAccessSignature=..., or ResourceId=..."),
+      fileSystem: z.string().min(1).describe("File system (container) name"),
+      folder: z.string().optional().describe("Folder path within the file system"),
+      softDelete: SoftDeleteParam,
+      nativeSoftDelete: z.boolean().default(false).describe("Use native blob soft delete for deletion detection"),
+      description: z.string().optional(),
+    },
+    getToolHints("POST" as const),
+    async (params: any) => writeDataSource("createOrUpdateAdlsGen2DataSource", params, buildAdlsGen2DataSource),
+  );
+
   // ---------------- SYNC PLAN (LOCAL) ----------------
   // Generates safe, copy-paste commands leveraging local Azure CLI and the repo's existing scripts.
   const GenerateBlobSyncPlanParams = {
@@ -248,7 +359,7 @@ export function registerDataTools(server: any, context: ToolContext) {
     "generateBlobSyncPlan",
     "Generate a local sync plan to push this repo to an Azure Blob container using Azure CLI.",
     GenerateBlobSyncPlanParams,
-    getToolHints("POST" as const),
+    getToolHints("GET" as const),
     async ({ storageAccount, containerName, absoluteRepoPath, strategy }: any) => {
       try {
         // Check if we need to elicit missing parameters
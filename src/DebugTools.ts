@@ -2,6 +2,7 @@ import { z } from "zod";
 import type { ToolContext } from "./types";
 import { elicitIfNeeded } from "./utils/elicitation-integration";
 import { ResponseFormatter } from "./utils/response";
+import getToolHints from "./utils/toolHints";
 
 export function registerDebugTools(server: any, context: ToolContext) {
   const rf = new ResponseFormatter(() => null);
@@ -12,7 +13,7 @@ export function registerDebugTools(server: any, context: ToolContext) {
     {
       performTest: z.boolean().optional().default(false).describe("If true, attempts a simple elicitation ping")
     },
-    { streaming: false },
+    { ...getToolHints("GET"), streaming: false },
     async ({ performTest }: { performTest?: boolean }) => {
       const agent: any = context.agent;
       const serverObj: any = (context as any).server || undefined;
@@ -0,0 +1,39 @@
+// src/DefinitionHistoryObject.ts
+/**
+ * Singleton Durable Object holding definition history for every MCP session, keyed by service endpoint.
+ * Session agents call it over RPC; see utils/definition-history.ts for the stored format.
+ */
+import { DurableObject } from "cloudflare:workers";
+import { DefinitionHistoryStore, type DefinitionVersion } from "./utils/definition-history";
+import type { ResourceKind } from "./utils/resource-plan";
+import type { SqlExecutor } from "./types";
+
+export const DEFINITION_HISTORY_OBJECT_NAME = "definition-history";
+
+export class DefinitionHistory extends DurableObject {
+  private readonly store: DefinitionHistoryStore;
+
+  constructor(ctx: DurableObjectState, env: unknown) {
+    super(ctx, env);
+    const sql: SqlExecutor = (strings, ...values) =>
+      ctx.storage.sql.exec(strings.join("?"), ...values).toArray() as any[];
+    this.store = new DefinitionHistoryStore(sql);
+  }
+
+  async save(endpoint: string, kind: ResourceKind, name: string, live: any, tool: string): Promise<DefinitionVersion | null> {
+    return this.store.save(endpoint, kind, name, live, tool);
+  }
+
+  async list(endpoint: string, kind: ResourceKind, name: string, limit?: number): Promise<DefinitionVersion[]> {
+    return this.store.list(endpoint, kind, name, limit);
+  }
+
+  async get(
+    endpoint: string,
+    kind: ResourceKind,
+    name: string,
+    version: number,
+  ): Promise<(DefinitionVersion & { definition: any }) | null> {
+    return this.store.get(endpoint, kind, name, version);
+  }
+}
@@ -0,0 +1,126 @@
+// src/DefinitionHistoryTools.ts
+import { z } from "zod";
+import { ResponseFormatter } from "./utils/response";
+import getToolHints from "./utils/toolHints";
+import type { ToolContext } from "./types";
+import { HISTORY_KINDS, restoreSecrets, type DefinitionHistoryBackend } from "./utils/definition-history";
+import { getLiveDefinition, putDefinition, resourceLabel } from "./utils/resource-plan";
+import { diffIndexDefinitions } from "./utils/index-diff";
+import { extractEtag } from "./utils/verify";
+import { DEFAULT_TIMEOUT_MS } from "./constants";
+
+/**
+ * Register definition history tools. Versions are saved by installDefinitionHistory before each
+ * createOrUpdate* write and live in the shared DefinitionHistory Durable Object.
+ * Tools:
+ *  - listDefinitionHistory
+ *  - rollbackDefinition (ETag-checked)
+ */
+export function registerDefinitionHistoryTools(server: any, context: ToolContext) {
+  const { getClient } = context;
+  const rf = new ResponseFormatter(() => {
+    const s = context.getSummarizer?.();
+    if (!s) return null;
+    return (text: string, maxTokens?: number) => s(text, maxTokens ?? 800);
+  });
+
+  const getStore = (): DefinitionHistoryBackend => {
+    const store = context.definitionHistory;
+    if (!store) throw new Error("Definition history is unavailable: Durable Object SQLite storage is not configured");
+    return store;
+  };
+
+  server.tool(
+    "listDefinitionHistory",
+    "List saved prior versions of an index, skillset, indexer, data source, synonym map, knowledge agent or knowledge source, newest first. A version is saved each time a createOrUpdate* tool or rollbackDefinition replaces the definition.",
+    {
+      kind: z.enum(HISTORY_KINDS),
+      name: z.string().min(1),
+      includeDefinitions: z.boolean().default(false).describe("Include each version's full definition (secrets masked)"),
+      limit: z.number().int().positive().max(100).default(20),
+    },
+    getToolHints("GET"),
+    async (params: any) => {
+      const client = getClient();
+      const exec = rf.createToolExecutor<typeof params>("listDefinitionHistory", DEFAULT_TIMEOUT_MS);
+      return exec(params, async (p) => {
+        const store = getStore();
+        const endpoint = client.getEndpoint();
+        const versions = await store.list(endpoint, p.kind, p.name, p.limit);
+        return {
+          kind: p.kind,
+          name: p.name,
+          count: versions.length,
+          versions: p.includeDefinitions
+            ? await Promise.all(
+                versions.map(async (v) => ({ ...v, definition: (await store.get(endpoint, p.kind, p.name, v.version))?.definition })),
+              )
+            : versions,
+        };
+      });
+    },
+  );
+
+  server.tool(
+    "rollbackDefinition",
+    "Re-apply a saved version of a definition from listDefinitionHistory. The write uses If-Match with the live ETag, so a concurrent change fails instead of being overwritten; pass ifMatch to also require that the live definition is the one you reviewed. The definition being replaced is saved as a new version first. Secrets are kept from the live definition.",
+    {
+      kind: z.enum(HISTORY_KINDS),
+      name: z.string().min(1),
+      version: z.number().int().positive(),
+      ifMatch: z.string().optional().describe("Expected @odata.etag of the live definition"),
+      allowIndexDowntime: z.boolean().default(false).describe("Allow index changes that take the index offline briefly"),
+    },
+    getToolHints("PUT"),
+    async (params: any) => {
+      const client = getClient();
+      const exec = rf.createToolExecutor<typeof params>("rollbackDefinition", DEFAULT_TIMEOUT_MS);
+      return exec(params, async (p) => {
+        const store = getStore();
+        const label = resourceLabel(p.kind);
+        const saved = await store.get(client.getEndpoint(), p.kind, p.name, p.version);
+        if (!saved) {
+          const error: any = new Error(`Version ${p.version} of ${label} '${p.name}' not found; use listDefinitionHistory`);
+          error.statusCode = 404;
+          throw error;
+        }
+
+        const live = await getLiveDefinition(client, p.kind, p.name);
+        const liveEtag = extractEtag(live);
+        if (p.ifMatch && p.ifMatch !== liveEtag) {
+          const error: any = new Error(`The ${label} '${p.name}' changed: live ETag is ${liveEtag ?? "none (deleted)"}, expected ${p.ifMatch}`);
+          error.statusCode = 412;
+          throw error;
+        }
+
+        if (p.kind === "index" && live) {
+          const diff = diffIndexDefinitions(live, saved.definition);
+          if (diff.impact === "requiresRebuild") {
+            throw new Error(`Rolling back index '${p.name}' to version ${p.version} requires a rebuild; create a new index from it and swap an alias instead`);
+          }
+          if (diff.impact === "requiresDowntime" && !p.allowIndexDowntime) {
+            throw new Error(`Rolling back index '${p.name}' to version ${p.version} requires allowIndexDowntime=true`);
+          }
+        }
+
+        const replaced = live ? await store.save(client.getEndpoint(), p.kind, p.name, live, "rollbackDefinition") : null;
+        const definition = restoreSecrets(saved.definition, live);
+        const result = await putDefinition(client, p.kind, p.name, definition, {
+          ...(live ? { ifMatch: liveEtag ?? undefined } : { ifNoneMatch: "*" }),
+          allowIndexDowntime: p.allowIndexDowntime,
+        });
+
+        return {
+          success: true,
+          message: `Rolled back ${label} '${p.name}' to version ${p.version}`,
+          kind: p.kind,
+          name: p.name,
+          restoredVersion: p.version,
+          savedPreviousAsVersion: replaced?.version ?? null,
+          etagBefore: liveEtag,
+          etagAfter: extractEtag(result),
+        };
+      });
+    },
+  );
+}
@@ -0,0 +1,115 @@
+// src/DeploymentTools.ts
+import { z } from "zod";
+import { ResponseFormatter } from "./utils/response";
+import getToolHints from "./utils/toolHints";
+import type { ToolContext } from "./types";
+import { planResources, applyPlan, isSecretPath, type ResourcePlan } from "./utils/resource-plan";
+import { DEFAULT_TIMEOUT_MS, BULK_INGEST_TIMEOUT_MS } from "./constants";
+
+const DefinitionList = z.array(z.object({ name: z.string() }).passthrough()).optional();
+
+const ResourceBundleSchema = z
+  .object({
+    synonymMaps: DefinitionList,
+    dataSources: DefinitionList,
+    indexes: DefinitionList,
+    skillsets: DefinitionList,
+    indexers: DefinitionList,
+    knowledgeSources: DefinitionList,
+    aliases: DefinitionList,
+    knowledgeAgents: DefinitionList,
+  })
+  .describe("Desired definitions grouped by resource type, as stored in source control");
+
+// Drop full desired definitions from the response (the caller already has them) and mask secrets
+function planView(plan: ResourcePlan) {
+  return {
+    plan: plan.text,
+    summary: plan.summary,
+    planHash: plan.planHash,
+    changes: plan.changes
+      .filter((c) => c.action !== "noop")
+      .map(({ desired, ...rest }) => ({
+        ...rest,
+        changes: rest.changes.map((a) => (isSecretPath(a.path) ? { ...a, before: "(sensitive)", after: "(sensitive)" } : a)),
+      })),
+  };
+}
+
+/**
+ * Register declarative search-as-code tools.
+ * Tools:
+ *  - planSearchResources (diff a bundle against live state)
+ *  - applySearchResources (apply a reviewed plan in dependency order)
+ */
+export function registerDeploymentTools(server: any, context: ToolContext) {
+  const { getClient } = context;
+  const rf = new ResponseFormatter(() => {
+    const s = context.getSummarizer?.();
+    if (!s) return null;
+    return (text: string, maxTokens?: number) => s(text, maxTokens ?? 800);
+  });
+
+  server.tool(
+    "planSearchResources",
+    "Terraform-style plan: diff a bundle of desired definitions (synonym maps, data sources, indexes, skillsets, indexers, knowledge sources, aliases, knowledge agents) against the live service. Shows what would be added or changed, in dependency order, and returns a planHash to pass to applySearchResources. Resources not in the bundle are left alone; properties a definition omits keep their live values, but named items (fields, skills) left out of a listed array are removed. Data source credentials are not compared; a connectionString in the bundle is always applied, since the service never returns it.",
+    {
+      bundle: ResourceBundleSchema,
+      allowIndexDowntime: z.boolean().default(false).describe("Treat index changes that need brief downtime as applicable"),
+    },
+    getToolHints("GET"),
+    async (params: any) => {
+      const client = getClient();
+      const exec = rf.createToolExecutor<typeof params>("planSearchResources", DEFAULT_TIMEOUT_MS);
+      return exec(params, async (p) => planView(await planResources(client, p.bundle, { allowIndexDowntime: p.allowIndexDowntime })));
+    },
+  );
+
+  server.tool(
+    "applySearchResources",
+    "Apply a bundle of desired definitions. Always re-plans first; changes are only applied when planHash matches the plan you reviewed (from planSearchResources or a previous call), otherwise the current plan is returned for review. Creates and updates run in dependency order (synonym maps and data sources, then indexes and skillsets, then indexers, then knowledge sources, then aliases and knowledge agents) with @odata.etag concurrency.",
+    {
+      bundle: ResourceBundleSchema,
+      planHash: z.string().optional().describe("planHash of the reviewed plan"),
+      allowIndexDowntime: z.boolean().default(false).describe("Allow index updates that take the index offline briefly"),
+    },
+    getToolHints("PUT"),
+    async (params: any) => {
+      const client = getClient();
+      const exec = rf.createToolExecutor<typeof params>("applySearchResources", BULK_INGEST_TIMEOUT_MS);
+      return exec(params, async (p) => {
+        const plan = await planResources(client, p.bundle, { allowIndexDowntime: p.allowIndexDowntime });
+
+        if (plan.summary.create + plan.summary.update === 0) {
+          return { applied: false, message: "Nothing to apply", ...planView(plan) };
+        }
+        if (p.planHash !== plan.planHash) {
+          return {
+            applied: false,
+            message: p.planHash
+              ? "Live state or the bundle changed since the plan was reviewed. Review this plan and call again with its planHash."
+              : "Review this plan and call again with its planHash to apply it.",
+            ...planView(plan),
+          };
+        }
+        if (plan.summary.blocked > 0) {
+          throw new Error(`Plan has blocked changes:\n${plan.changes.filter((c) => c.blocked).map((c) => `${c.kind} '${c.name}': ${c.blocked}`).join("\n")}`);
+        }
+
+        const results = await applyPlan(client, plan, { allowIndexDowntime: p.allowIndexDowntime });
+        const failed = results.filter((r) => r.status === "failed").length;
+        return {
+          applied: true,
+          success: failed === 0,
+          plan: plan.text,
+          results,
+          summary: {
+            applied: results.filter((r) => r.status === "applied").length,
+            failed,
+            skipped: results.filter((r) => r.status === "skipped").length,
+          },
+        };
+      });
+    },
+  );
+}
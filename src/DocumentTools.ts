@@ -4,8 +4,9 @@ import { ResponseFormatter } from "./utils/response";
 import getToolHints from "./utils/toolHints";
 import { ToolElicitationBuilder } from "./tool-elicitation";
 import { elicitIfNeeded } from "./utils/elicitation-integration";
-import type { ToolContext } from "./types";
-import { SearchResultsSchema } from "./schemas";
+import type { ToolContext, SearchRequestBody, SearchResults, FacetSpec, SuggestRequestBody, AutocompleteRequestBody, IndexAction } from "./types";
+import type { AzureSearchClient } from "./azure-search-client";
+import { SearchResultsSchema, VectorQuerySchema, VectorFilterModeSchema, QueryTypeSchema, FacetSpecSchema } from "./schemas";
 import {
   DEFAULT_TIMEOUT_MS,
   MAX_SEARCH_RESULTS,
@@ -15,13 +16,240 @@ import {
   ERROR_EMPTY_BATCH,
   ERROR_BATCH_TOO_LARGE,
   MAX_DOCUMENTS_PER_BATCH,
+  BULK_INGEST_TIMEOUT_MS,
+  DEFAULT_BULK_CONCURRENCY,
+  MAX_BULK_CONCURRENCY,
+  DEFAULT_BULK_MAX_RETRIES,
+  MAX_IMPORT_BYTES,
+  MAX_REPORTED_ROW_ERRORS,
+  MAX_RESPONSE_SIZE_BYTES,
 } from "./constants";
+import { bulkIndex } from "./utils/bulk-ingest";
+import { keysetPaginate } from "./utils/streaming-pagination";
+import { detectFormat, parseDocuments, coerceDocuments, fetchImportPayload, type ImportFormat } from "./utils/document-import";
+
+/**
+ * Normalize a search response so every hit carries its relevance scores up front.
+ * `@search.rerankerScore` and `@search.captions` are only populated by the semantic ranker; they are
+ * reported as null otherwise so clients can rely on a stable shape across query types.
+ */
+function toSearchEnvelope(result: SearchResults) {
+  const hits = (result.value || []).map((hit: any) => {
+    const {
+      "@search.score": score,
+      "@search.rerankerScore": rerankerScore,
+      "@search.captions": captions,
+      ...document
+    } = hit ?? {};
+    return {
+      "@search.score": score ?? null,
+      "@search.rerankerScore": rerankerScore ?? null,
+      "@search.captions": Array.isArray(captions)
+        ? captions.map((c: any) => ({ text: c?.text ?? null, highlights: c?.highlights ?? null }))
+        : null,
+      ...document,
+    };
+  });
+
+  const answers = Array.isArray(result["@search.answers"])
+    ? result["@search.answers"].map((a: any) => ({
+        key: a?.key ?? null,
+        text: a?.text ?? null,
+        highlights: a?.highlights ?? null,
+        score: a?.score ?? null,
+      }))
+    : undefined;
+
+  return {
+    ...(result["@odata.count"] !== undefined && { "@odata.count": result["@odata.count"] }),
+    ...(result["@search.coverage"] !== undefined && { "@search.coverage": result["@search.coverage"] }),
+    ...(answers && { "@search.answers": answers }),
+    ...(result["@search.semanticPartialResponseReason"] && {
+      "@search.semanticPartialResponseReason": result["@search.semanticPartialResponseReason"],
+      "@search.semanticPartialResponseType": result["@search.semanticPartialResponseType"],
+    }),
+    ...(result["@search.nextPageParameters"] && { "@search.nextPageParameters": result["@search.nextPageParameters"] }),
+    resultCount: hits.length,
+    value: hits,
+  };
+}
+
+const NUMERIC_FACET_TYPES = new Set(["Edm.Int32", "Edm.Int64", "Edm.Double", "Collection(Edm.Int32)", "Collection(Edm.Int64)", "Collection(Edm.Double)"]);
+const DATE_FACET_TYPES = new Set(["Edm.DateTimeOffset", "Collection(Edm.DateTimeOffset)"]);
+
+/** Parse a raw facet expression such as "category,count:5,sort:count" or "price,values:10|50|100". */
+function parseFacetExpression(expression: string): FacetSpec {
+  const [field, ...parts] = expression.split(",").map((p) => p.trim());
+  const spec: FacetSpec = { field };
+  for (const part of parts) {
+    const sep = part.indexOf(":");
+    const name = sep >= 0 ? part.slice(0, sep) : part;
+    const value = sep >= 0 ? part.slice(sep + 1) : "";
+    switch (name) {
+      case "count":
+        spec.count = Number(value);
+        break;
+      case "sort":
+        spec.sort = value as FacetSpec["sort"];
+        break;
+      case "interval":
+        spec.interval = Number.isFinite(Number(value)) ? Number(value) : (value as FacetSpec["interval"]);
+        break;
+      case "values":
+        spec.values = value.split("|").map((v) => (v !== "" && Number.isFinite(Number(v)) ? Number(v) : v));
+        break;
+      default:
+        throw new Error(`Unsupported facet parameter '${name}' in expression '${expression}'`);
+    }
+  }
+  return spec;
+}
+
+function toFacetExpression(spec: FacetSpec): string {
+  const parts = [spec.field];
+  if (spec.count !== undefined) parts.push(`count:${spec.count}`);
+  if (spec.sort) parts.push(`sort:${spec.sort}`);
+  if (spec.interval !== undefined) parts.push(`interval:${spec.interval}`);
+  if (spec.values) parts.push(`values:${spec.values.join("|")}`);
+  return parts.join(",");
+}
+
+/** Resolve a field path (e.g. "address/city") against an index definition's field tree. */
+function findIndexField(fields: any[] | undefined, path: string): any | undefined {
+  let current: any;
+  let scope = fields;
+  for (const segment of path.split("/")) {
+    current = scope?.find((f: any) => f?.name === segment);
+    if (!current) return undefined;
+    scope = current.fields;
+  }
+  return current;
+}
+
+function validateFacetSpecs(indexDefinition: any, specs: FacetSpec[]): string[] {
+  const errors: string[] = [];
+  for (const spec of specs) {
+    const field = findIndexField(indexDefinition?.fields, spec.field);
+    if (!field) {
+      errors.push(`Field '${spec.field}' does not exist in index '${indexDefinition?.name}'`);
+      continue;
+    }
+    if (field.facetable !== true) {
+      errors.push(`Field '${spec.field}' is not facetable`);
+      continue;
+    }
+    if (spec.interval !== undefined && spec.values) {
+      errors.push(`Facet '${spec.field}' cannot combine interval and values`);
+    }
+    const isNumeric = NUMERIC_FACET_TYPES.has(field.type);
+    const isDate = DATE_FACET_TYPES.has(field.type);
+    if (spec.interval !== undefined) {
+      if (typeof spec.interval === "number" && !isNumeric) {
+        errors.push(`Numeric interval on '${spec.field}' requires a numeric field (found ${field.type})`);
+      } else if (typeof spec.interval === "string" && !isDate) {
+        errors.push(`Calendar interval '${spec.interval}' on '${spec.field}' requires an Edm.DateTimeOffset field (found ${field.type})`);
+      }
+    }
+    if (spec.values && !isNumeric && !isDate) {
+      errors.push(`Range values on '${spec.field}' require a numeric or date field (found ${field.type})`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Flatten `@search.facets` into one bucket shape regardless of facet kind:
+ *  - value:    { value, count }            -> from/to null
+ *  - interval: { value, count }            -> from = value, to = value + interval (numeric only)
+ *  - range:    { from?, to?, count }       -> value null
+ */
+function normalizeFacets(rawFacets: Record<string, any[]> | undefined, specs: FacetSpec[]) {
+  return specs.map((spec) => {
+    const kind = spec.values ? "range" : spec.interval !== undefined ? "interval" : "value";
+    const raw = rawFacets?.[spec.field] ?? [];
+    const buckets = raw.map((b: any) => {
+      const from = kind === "range" ? b?.from ?? null : kind === "interval" ? b?.value ?? null : null;
+      const to =
+        kind === "range"
+          ? b?.to ?? null
+          : kind === "interval" && typeof spec.interval === "number" && typeof b?.value === "number"
+            ? b.value + spec.interval
+            : null;
+      return {
+        value: kind === "range" ? null : b?.value ?? null,
+        from,
+        to,
+        count: b?.count ?? 0,
+        label: kind === "range" ? `${from ?? "*"} - ${to ?? "*"}` : String(b?.value),
+      };
+    });
+    return { field: spec.field, kind, expression: toFacetExpression(spec), buckets };
+  });
+}
+
+/**
+ * Confirm the named suggester exists on the index (and covers any requested searchFields)
+ * so a typo surfaces as a clear error instead of a generic 400 from the service.
+ */
+async function assertSuggester(client: AzureSearchClient, indexName: string, suggesterName: string, searchFields?: string[]) {
+  const indexDefinition: any = await client.getIndex(indexName);
+  const suggesters: any[] = Array.isArray(indexDefinition?.suggesters) ? indexDefinition.suggesters : [];
+  const suggester = suggesters.find((s) => s?.name === suggesterName);
+  if (!suggester) {
+    const available = suggesters.map((s) => s?.name).filter(Boolean);
+    throw new Error(
+      `Suggester '${suggesterName}' not found on index '${indexName}'. ` +
+        (available.length > 0 ? `Available suggesters: ${available.join(", ")}` : "The index has no suggesters configured."),
+    );
+  }
+  if (searchFields && searchFields.length > 0) {
+    const sourceFields = new Set<string>(suggester.sourceFields || []);
+    const outside = searchFields.filter((f) => !sourceFields.has(f));
+    if (outside.length > 0) {
+      throw new Error(`searchFields ${outside.join(", ")} are not source fields of suggester '${suggesterName}'`);
+    }
+  }
+}
+
+async function getKeyFieldName(client: AzureSearchClient, indexName: string): Promise<string> {
+  const index: any = await client.getIndex(indexName);
+  const key = (index?.fields || []).find((f: any) => f.key)?.name;
+  if (!key) throw new Error(`Index '${indexName}' has no key field`);
+  return key;
+}
+
+// Drop per-hit search metadata (@search.score, highlights, ...) so hits can be written back as documents
+function stripSearchMetadata(hit: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(hit).filter(([k]) => !k.startsWith("@search.")));
+}
+
+/**
+ * Send an MCP progress notification when the caller supplied a progress token.
+ * Failures are swallowed; progress is best-effort and must not abort the operation.
+ */
+async function reportProgress(extra: any, progress: number, total: number | undefined, message: string) {
+  const progressToken = extra?._meta?.progressToken;
+  if (progressToken === undefined || typeof extra?.sendNotification !== "function") return;
+  try {
+    await extra.sendNotification({
+      method: "notifications/progress",
+      params: { progressToken, progress, ...(total !== undefined ? { total } : {}), message },
+    });
+  } catch {
+    // ignore
+  }
+}
 
 /**
  * Register document search and CRUD tools.
  * Tools:
- *  - searchDocuments, getDocument, countDocuments
+ *  - searchDocuments, facetDocuments, getDocument, countDocuments
+ *  - suggest, autocomplete
  *  - uploadDocuments, mergeDocuments, mergeOrUploadDocuments, deleteDocuments
+ *  - bulkIndexDocuments (auto-batched, per-key retry)
+ *  - importDocuments (NDJSON / CSV / JSON array, inline or from a URL)
+ *  - exportDocuments (full index walk in key order)
+ *  - copyDocuments (index-to-index copy with field mapping)
  */
 export function registerDocumentTools(server: any, context: ToolContext) {
   const { getClient, getSummarizer } = context;
@@ -34,7 +262,7 @@ export function registerDocumentTools(server: any, context: ToolContext) {
   // Note: pass raw Zod shape (not z.object) so MCP can register params
   server.tool(
     "searchDocuments",
-    "Search for documents using keywords, filters, and sorting. Supports OData filter syntax, pagination (max 50 results per request), field selection, and relevance scoring. Use '*' to retrieve all documents.",
+    "Search for documents using keywords, vectors, or both (hybrid), with filters and sorting. Supports OData filter syntax, pagination (max 50 results per request), field selection, and relevance scoring. Use '*' to retrieve all documents. Set queryType='semantic' for semantic ranking with extractive captions and answers. Each hit reports @search.score, @search.rerankerScore and @search.captions.",
     {
       indexName: z
         .string()
@@ -59,11 +287,42 @@ export function registerDocumentTools(server: any, context: ToolContext) {
       // Accept lowercase alias for convenience
       orderby: z.string().optional(),
       includeTotalCount: z.boolean().default(true),
+      vectorQueries: z
+        .array(VectorQuerySchema)
+        .max(10)
+        .optional()
+        .describe("Vector queries for vector or hybrid search. Use kind 'text' when the field has a vectorizer, 'vector' to pass an embedding."),
+      vectorFilterMode: VectorFilterModeSchema.optional().describe("Apply the filter before (preFilter) or after (postFilter) vector search"),
+      queryType: QueryTypeSchema.optional().describe("'simple' (default), 'full' Lucene syntax, or 'semantic' ranking"),
+      semanticConfiguration: z.string().optional().describe("Semantic configuration name (defaults to the index's defaultConfiguration)"),
+      captions: z.enum(["none", "extractive"]).optional().describe("Return extractive captions per document (semantic only)"),
+      highlightCaptions: z.boolean().default(true).describe("Wrap caption key phrases in <em> tags"),
+      answers: z.enum(["none", "extractive"]).optional().describe("Return extractive semantic answers (semantic only)"),
+      answerCount: z.number().int().min(1).max(10).optional().describe("Maximum number of answers (default 1)"),
+      answerThreshold: z.number().min(0).max(1).optional().describe("Minimum confidence for an answer to be returned"),
+      semanticQuery: z.string().optional().describe("Separate query used only for semantic reranking, captions and answers"),
+      semanticMaxWaitInMilliseconds: z
+        .number()
+        .int()
+        .min(700)
+        .optional()
+        .describe("Fall back to base ranking if semantic processing exceeds this budget"),
     },
     // Annotations must be before the callback per MCP SDK API
-    { ...getToolHints("POST") },
+    { ...getToolHints("GET") },
     async (params: any) => {
-      let { indexName, search, top, skip, select, filter, orderBy, orderby, includeTotalCount } = params;
+      let { indexName, search, top, skip, select, filter, orderBy, orderby, includeTotalCount, vectorQueries, vectorFilterMode } = params;
+      const {
+        queryType,
+        semanticConfiguration,
+        captions,
+        highlightCaptions,
+        answers,
+        answerCount,
+        answerThreshold,
+        semanticQuery,
+        semanticMaxWaitInMilliseconds,
+      } = params;
       const client = getClient();
 
       // Elicit search parameters if index not provided
@@ -77,8 +336,10 @@ export function registerDocumentTools(server: any, context: ToolContext) {
         }
       }
 
-      const body = {
-        search: search || "*",
+      const hasVectorQueries = Array.isArray(vectorQueries) && vectorQueries.length > 0;
+      const body: SearchRequestBody = {
+        // Pure vector queries omit the keyword component entirely
+        ...((search || !hasVectorQueries) && { search: search || "*" }),
         top,
         skip,
         ...(select && { select: select.join(",") }),
@@ -87,6 +348,21 @@ export function registerDocumentTools(server: any, context: ToolContext) {
         ...(orderBy && { orderby: orderBy }),
         ...(orderby && { orderby }),
         ...(includeTotalCount && { count: true }),
+        ...(hasVectorQueries && { vectorQueries }),
+        ...(hasVectorQueries && vectorFilterMode && { vectorFilterMode }),
+        ...(queryType && { queryType }),
+        ...(semanticConfiguration && { semanticConfiguration }),
+        ...(captions && { captions: captions === "extractive" ? `extractive|highlight-${highlightCaptions !== false}` : captions }),
+        ...(answers && {
+          answers:
+            answers === "extractive"
+              ? ["extractive", answerCount && `count-${answerCount}`, answerThreshold !== undefined && `threshold-${answerThreshold}`]
+                  .filter(Boolean)
+                  .join("|")
+              : answers,
+        }),
+        ...(semanticQuery && { semanticQuery }),
+        ...(semanticMaxWaitInMilliseconds && { semanticMaxWaitInMilliseconds }),
       };
 
       if (!indexName) {
@@ -99,8 +375,69 @@ export function registerDocumentTools(server: any, context: ToolContext) {
       const exec = rf.createToolExecutor<typeof params>("searchDocuments", DEFAULT_TIMEOUT_MS);
       return exec(
         { indexName, search, top, skip, select, filter, orderBy: orderBy || orderby, includeTotalCount } as any,
-        () => client.searchDocuments(indexName, body),
-        { tool: "searchDocuments", indexName, ...body },
+        async () => toSearchEnvelope(await client.searchDocuments(indexName, body)),
+        {
+          tool: "searchDocuments",
+          indexName,
+          ...body,
+          // Embeddings are large and add nothing to error diagnostics
+          ...(hasVectorQueries && { vectorQueries: vectorQueries.map((q: any) => ({ kind: q.kind, fields: q.fields, k: q.k })) }),
+        },
+      );
+    },
+  );
+
+  server.tool(
+    "facetDocuments",
+    "Faceted navigation: compute value, interval and range facets over matching documents. Accepts structured facet specs or raw expressions ('category,count:10,sort:count', 'price,interval:10', 'rating,values:2|4'). Fields are checked against the index definition and must be facetable. Returns one bucket shape { value, from, to, count, label } for all facet kinds.",
+    {
+      indexName: z
+        .string()
+        .min(1, "Index name is required")
+        .max(128, "Index name must be at most 128 characters")
+        .regex(INDEX_NAME_PATTERN, ERROR_INVALID_INDEX_NAME),
+      facets: z
+        .array(z.union([z.string().min(1), FacetSpecSchema]))
+        .min(1, "At least one facet is required")
+        .max(20)
+        .describe("Facet specs or raw Azure facet expressions"),
+      search: z.string().default("*").optional(),
+      filter: z
+        .string()
+        .optional()
+        .refine((val) => !val || !val.includes(";"), "Filter cannot contain semicolons for security"),
+      includeTotalCount: z.boolean().default(true),
+    },
+    getToolHints("GET"),
+    async (params: any) => {
+      const { indexName, facets, search, filter, includeTotalCount } = params;
+      const client = getClient();
+      const exec = rf.createToolExecutor<typeof params>("facetDocuments", DEFAULT_TIMEOUT_MS);
+      return exec(
+        params,
+        async () => {
+          const specs: FacetSpec[] = facets.map((f: string | FacetSpec) => (typeof f === "string" ? parseFacetExpression(f) : f));
+
+          const indexDefinition: any = await client.getIndex(indexName);
+          const errors = validateFacetSpecs(indexDefinition, specs);
+          if (errors.length > 0) {
+            throw new Error(`Facet validation failed:\n${errors.join("\n")}`);
+          }
+
+          const result = await client.searchDocuments(indexName, {
+            search: search || "*",
+            top: 0,
+            facets: specs.map(toFacetExpression),
+            ...(filter && { filter }),
+            ...(includeTotalCount && { count: true }),
+          });
+
+          return {
+            ...(result["@odata.count"] !== undefined && { "@odata.count": result["@odata.count"] }),
+            facets: normalizeFacets(result["@search.facets"], specs),
+          };
+        },
+        { tool: "facetDocuments", indexName, facets, filter },
       );
     },
   );
@@ -151,6 +488,97 @@ export function registerDocumentTools(server: any, context: ToolContext) {
     },
   );
 
+  // Shared parameters for suggester-backed queries (suggest, autocomplete)
+  const SuggesterQueryParams = {
+    indexName: z
+      .string()
+      .min(1, "Index name is required")
+      .max(128, "Index name must be at most 128 characters")
+      .regex(INDEX_NAME_PATTERN, ERROR_INVALID_INDEX_NAME),
+    search: z.string().min(1).max(100).describe("Partial input typed by the user (1-100 characters)"),
+    suggesterName: z.string().min(1).describe("Suggester defined on the index (see listSuggesters)"),
+    fuzzy: z.boolean().optional().describe("Tolerate one character substitution or transposition"),
+    highlightPreTag: z.string().optional().describe("Tag prepended to matched text (requires highlightPostTag)"),
+    highlightPostTag: z.string().optional().describe("Tag appended to matched text (requires highlightPreTag)"),
+    searchFields: z.array(z.string()).optional().describe("Restrict matching to these suggester source fields"),
+    minimumCoverage: z.number().min(0).max(100).optional().describe("Percentage of the index that must respond for success (default 80)"),
+    filter: z
+      .string()
+      .optional()
+      .refine((val) => !val || !val.includes(";"), "Filter cannot contain semicolons for security"),
+    top: z.number().int().min(1).max(100).default(5).describe("Number of results (1-100)"),
+  } as const;
+
+  const buildSuggesterBody = (p: any) => {
+    if (!!p.highlightPreTag !== !!p.highlightPostTag) {
+      throw new Error("highlightPreTag and highlightPostTag must be provided together");
+    }
+    return {
+      search: p.search,
+      suggesterName: p.suggesterName,
+      top: p.top,
+      ...(p.fuzzy !== undefined && { fuzzy: p.fuzzy }),
+      ...(p.highlightPreTag && { highlightPreTag: p.highlightPreTag, highlightPostTag: p.highlightPostTag }),
+      ...(p.searchFields?.length && { searchFields: p.searchFields.join(",") }),
+      ...(p.minimumCoverage !== undefined && { minimumCoverage: p.minimumCoverage }),
+      ...(p.filter && { filter: p.filter }),
+    };
+  };
+
+  server.tool(
+    "suggest",
+    "Search-as-you-type document suggestions from a suggester. Returns matching documents with the matched text in @search.text. The suggester must exist on the index.",
+    {
+      ...SuggesterQueryParams,
+      select: z.array(z.string()).optional().describe("Fields to return with each suggestion"),
+      orderby: z.string().optional(),
+    },
+    getToolHints("GET"),
+    async (params: any) => {
+      const client = getClient();
+      const exec = rf.createToolExecutor<typeof params>("suggest", DEFAULT_TIMEOUT_MS);
+      return exec(
+        params,
+        async (p) => {
+          const body: SuggestRequestBody = {
+            ...buildSuggesterBody(p),
+            ...(p.select?.length && { select: p.select.join(",") }),
+            ...(p.orderby && { orderby: p.orderby }),
+          };
+          await assertSuggester(client, p.indexName, p.suggesterName, p.searchFields);
+          return client.suggest(p.indexName, body);
+        },
+        { tool: "suggest", indexName: params.indexName, suggesterName: params.suggesterName },
+      );
+    },
+  );
+
+  server.tool(
+    "autocomplete",
+    "Complete the term the user is typing using a suggester. autocompleteMode: oneTerm (default), twoTerms, or oneTermWithContext. The suggester must exist on the index.",
+    {
+      ...SuggesterQueryParams,
+      autocompleteMode: z.enum(["oneTerm", "twoTerms", "oneTermWithContext"]).optional(),
+    },
+    getToolHints("GET"),
+    async (params: any) => {
+      const client = getClient();
+      const exec = rf.createToolExecutor<typeof params>("autocomplete", DEFAULT_TIMEOUT_MS);
+      return exec(
+        params,
+        async (p) => {
+          const body: AutocompleteRequestBody = {
+            ...buildSuggesterBody(p),
+            ...(p.autocompleteMode && { autocompleteMode: p.autocompleteMode }),
+          };
+          await assertSuggester(client, p.indexName, p.suggesterName, p.searchFields);
+          return client.autocomplete(p.indexName, body);
+        },
+        { tool: "autocomplete", indexName: params.indexName, suggesterName: params.suggesterName },
+      );
+    },
+  );
+
   // ---------------- DOCUMENT OPERATIONS ----------------
   server.tool(
     "uploadDocuments",
@@ -326,4 +754,360 @@ export function registerDocumentTools(server: any, context: ToolContext) {
       });
     },
   );
+
+  server.tool(
+    "bulkIndexDocuments",
+    "Ingest any number of documents. Splits the payload into batches by document count (max 1000) and the 16MB request limit, sends them with bounded concurrency, and retries only the keys that failed with 409/422/503 using exponential backoff. Returns one report of succeeded and failed keys with error messages.",
+    {
+      indexName: z
+        .string()
+        .min(1, "Index name is required")
+        .max(128, "Index name must be at most 128 characters")
+        .regex(INDEX_NAME_PATTERN, ERROR_INVALID_INDEX_NAME),
+      documents: z
+        .array(
+          z
+            .object({
+              "@search.action": z.enum(["upload", "merge", "mergeOrUpload", "delete"]).optional(),
+            })
+            .catchall(z.unknown()),
+        )
+        .min(1, ERROR_EMPTY_BATCH)
+        .describe("Documents to index; no batch size limit"),
+      action: z
+        .enum(["upload", "merge", "mergeOrUpload", "delete"])
+        .default("mergeOrUpload")
+        .describe("Action for documents without an explicit @search.action"),
+      batchSize: z.number().int().min(1).max(MAX_DOCUMENTS_PER_BATCH).default(MAX_DOCUMENTS_PER_BATCH).describe("Maximum documents per batch"),
+      concurrency: z.number().int().min(1).max(MAX_BULK_CONCURRENCY).default(DEFAULT_BULK_CONCURRENCY).describe("Batches sent in parallel"),
+      maxRetries: z.number().int().min(0).max(10).default(DEFAULT_BULK_MAX_RETRIES).describe("Retry attempts for transiently failed keys"),
+    },
+    getToolHints("POST"),
+    async (params: any) => {
+      const client = getClient();
+      const exec = rf.createToolExecutor<typeof params>("bulkIndexDocuments", BULK_INGEST_TIMEOUT_MS);
+      return exec(
+        params,
+        async (p) => {
+          const keyField = await getKeyFieldName(client, p.indexName);
+          const actions = p.documents.map((doc: Record<string, unknown>) =>
+            doc["@search.action"] ? doc : { "@search.action": p.action, ...doc },
+          ) as IndexAction[];
+
+          const report = await bulkIndex(actions, {
+            keyField,
+            send: (batch) => client.indexDocuments(p.indexName, { value: batch }),
+            batchSize: p.batchSize,
+            concurrency: p.concurrency,
+            maxRetries: p.maxRetries,
+          });
+
+          return { indexName: p.indexName, keyField, success: report.failed === 0, ...report };
+        },
+        { indexName: params.indexName, documentCount: params.documents?.length },
+      );
+    },
+  );
+
+  server.tool(
+    "importDocuments",
+    "Import documents from NDJSON, CSV (header row required) or a JSON array, passed inline or fetched from an HTTP(S) URL. Values are coerced to the index field types read from getIndex (e.g. Edm.Int32, Edm.Double, Edm.DateTimeOffset, Collection(Edm.String), Edm.GeographyPoint). Every row is checked first; if any row fails coercion nothing is uploaded and the per-row errors are returned.",
+    {
+      indexName: z
+        .string()
+        .min(1, "Index name is required")
+        .max(128, "Index name must be at most 128 characters")
+        .regex(INDEX_NAME_PATTERN, ERROR_INVALID_INDEX_NAME),
+      data: z.string().optional().describe("Inline payload"),
+      url: z.string().url().optional().describe("HTTP(S) URL to fetch the payload from"),
+      format: z.enum(["auto", "ndjson", "csv", "json"]).default("auto").describe("Payload format; 'auto' detects from the first character"),
+      csvDelimiter: z.string().length(1).default(",").describe("CSV column delimiter"),
+      collectionDelimiter: z.string().min(1).default(";").describe("Separator for Collection(...) values given as plain text (CSV)"),
+      ignoreUnknownFields: z.boolean().default(false).describe("Drop columns that are not index fields instead of failing the row"),
+      skipInvalidRows: z.boolean().default(false).describe("Upload valid rows even when other rows fail coercion"),
+      action: z.enum(["upload", "merge", "mergeOrUpload"]).default("mergeOrUpload"),
+      dryRun: z.boolean().default(false).describe("Parse and coerce only; do not upload"),
+    },
+    getToolHints("POST"),
+    async (params: any) => {
+      const client = getClient();
+      const exec = rf.createToolExecutor<typeof params>("importDocuments", BULK_INGEST_TIMEOUT_MS);
+      return exec(
+        params,
+        async (p) => {
+          if (!p.data === !p.url) {
+            throw new Error("Provide exactly one of 'data' or 'url'");
+          }
+          const text: string = p.data ?? (await fetchImportPayload(p.url, MAX_IMPORT_BYTES));
+          const format: ImportFormat = p.format === "auto" ? detectFormat(text) : p.format;
+
+          const index: any = await client.getIndex(p.indexName);
+          const fields = index?.fields || [];
+          const keyField = fields.find((f: any) => f.key)?.name;
+          if (!keyField) throw new Error(`Index '${p.indexName}' has no key field`);
+
+          const parsed = parseDocuments(text, format, p.csvDelimiter);
+          const coerced = coerceDocuments(parsed.rows, fields, keyField, {
+            collectionDelimiter: p.collectionDelimiter,
+            ignoreUnknownFields: p.ignoreUnknownFields,
+          });
+          const errors = [...parsed.errors, ...coerced.errors].sort((a, b) => a.row - b.row);
+          const invalidRows = parsed.errors.length + coerced.invalidRows;
+
+          const summary = {
+            indexName: p.indexName,
+            format,
+            totalRows: parsed.rows.length + parsed.errors.length,
+            validRows: coerced.documents.length,
+            invalidRows,
+            errors: errors.slice(0, MAX_REPORTED_ROW_ERRORS),
+            errorsTruncated: errors.length > MAX_REPORTED_ROW_ERRORS,
+          };
+
+          if (invalidRows > 0 && !p.skipInvalidRows) {
+            return { success: false, uploaded: false, message: "Type coercion failed; nothing was uploaded", ...summary };
+          }
+          if (p.dryRun || coerced.documents.length === 0) {
+            return { success: invalidRows === 0, uploaded: false, dryRun: p.dryRun, ...summary };
+          }
+
+          const actions = coerced.documents.map((doc) =>
+            doc["@search.action"] ? doc : { "@search.action": p.action, ...doc },
+          ) as IndexAction[];
+          const report = await bulkIndex(actions, {
+            keyField,
+            send: (batch) => client.indexDocuments(p.indexName, { value: batch }),
+          });
+
+          return { success: invalidRows === 0 && report.failed === 0, uploaded: true, ...summary, upload: report };
+        },
+        { indexName: params.indexName, url: params.url, format: params.format },
+      );
+    },
+  );
+
+  server.tool(
+    "exportDocuments",
+    "Export an entire index as NDJSON pages, walking documents in key order. Each page returns an opaque nextCursor (a key-range position, not a skip offset), so indexes of any size can be backed up or diffed. Pass the cursor back until hasMore is false.",
+    {
+      indexName: z
+        .string()
+        .min(1, "Index name is required")
+        .max(128, "Index name must be at most 128 characters")
+        .regex(INDEX_NAME_PATTERN, ERROR_INVALID_INDEX_NAME),
+      cursor: z.string().optional().describe("nextCursor from the previous page"),
+      pageSize: z.number().int().min(1).max(1000).default(1000).describe("Maximum documents per page; pages are also capped by response size"),
+      select: z.string().optional().describe("Comma-separated fields to export (the key field is always included)"),
+      filter: z
+        .string()
+        .optional()
+        .refine((val) => !val || !val.includes(";"), "Filter cannot contain semicolons for security")
+        .describe("Optional OData filter to export a subset"),
+    },
+    getToolHints("GET"),
+    async (params: any) => {
+      const client = getClient();
+      const exec = rf.createToolExecutor<typeof params>("exportDocuments", DEFAULT_TIMEOUT_MS);
+      return exec(
+        params,
+        async (p) => {
+          const index: any = await client.getIndex(p.indexName);
+          const keyField = (index?.fields || []).find((f: any) => f.key);
+          if (!keyField) throw new Error(`Index '${p.indexName}' has no key field`);
+          if (keyField.sortable === false || keyField.filterable === false) {
+            throw new Error(`Key field '${keyField.name}' must be sortable and filterable to export in key order`);
+          }
+          const key: string = keyField.name;
+
+          let select: string | undefined;
+          if (p.select) {
+            const cols = p.select.split(",").map((c: string) => c.trim()).filter(Boolean);
+            select = (cols.includes(key) ? cols : [key, ...cols]).join(",");
+          }
+
+          const page = await keysetPaginate<Record<string, unknown>>(
+            async (afterKey, top) => {
+              const range = afterKey !== undefined ? `${key} gt '${afterKey.replace(/'/g, "''")}'` : undefined;
+              const filter = [p.filter ? `(${p.filter})` : undefined, range].filter(Boolean).join(" and ") || undefined;
+              const result = await client.searchDocuments(p.indexName, { search: "*", filter, orderby: `${key} asc`, top, select });
+              return (result.value || []).map((hit: any) => stripSearchMetadata(hit));
+            },
+            (doc) => String(doc[key]),
+            {
+              pageSize: p.pageSize,
+              cursor: p.cursor,
+              // Leave headroom for the envelope so the page is never truncated or summarized
+              maxBytes: MAX_RESPONSE_SIZE_BYTES - 2048,
+              sizeOf: (doc) => JSON.stringify(JSON.stringify(doc)).length,
+            },
+          );
+
+          return {
+            indexName: p.indexName,
+            keyField: key,
+            format: "ndjson",
+            count: page.items.length,
+            ndjson: page.items.map((doc) => JSON.stringify(doc)).join("\n"),
+            hasMore: page.hasMore,
+            nextCursor: page.nextCursor ?? null,
+          };
+        },
+        { indexName: params.indexName },
+      );
+    },
+  );
+
+  server.tool(
+    "copyDocuments",
+    "Copy every document from a source index to a target index, e.g. to reindex into a new schema created with createIndex's cloneFrom. Supports a field rename map, dropped fields, constant defaults for new fields and an OData filter on the source. Reads in key order and writes mergeOrUpload batches, emitting progress notifications. Long copies stop before the time limit and return a cursor to resume.",
+    {
+      sourceIndex: z.string().min(1).max(128).regex(INDEX_NAME_PATTERN, ERROR_INVALID_INDEX_NAME).describe("Index to read from"),
+      targetIndex: z.string().min(1).max(128).regex(INDEX_NAME_PATTERN, ERROR_INVALID_INDEX_NAME).describe("Index to write to"),
+      renameFields: z.record(z.string()).optional().describe("Map of source field name to target field name"),
+      dropFields: z.array(z.string()).optional().describe("Source fields not to copy"),
+      defaults: z.record(z.unknown()).optional().describe("Constant values for target fields that are missing or null after mapping"),
+      filter: z
+        .string()
+        .optional()
+        .refine((val) => !val || !val.includes(";"), "Filter cannot contain semicolons for security")
+        .describe("OData filter applied to the source"),
+      pageSize: z.number().int().min(1).max(1000).default(1000).describe("Documents read per page"),
+      concurrency: z.number().int().min(1).max(MAX_BULK_CONCURRENCY).default(DEFAULT_BULK_CONCURRENCY),
+      cursor: z.string().optional().describe("nextCursor from a previous partial copy"),
+    },
+    getToolHints("POST"),
+    async (params: any, extra: any) => {
+      const client = getClient();
+      const exec = rf.createToolExecutor<typeof params>("copyDocuments", BULK_INGEST_TIMEOUT_MS);
+      return exec(
+        params,
+        async (p) => {
+          const started = Date.now();
+          // Stop early enough to return a resumable cursor instead of timing out mid-page
+          const deadline = started + BULK_INGEST_TIMEOUT_MS - DEFAULT_TIMEOUT_MS;
+
+          if (p.sourceIndex === p.targetIndex) throw new Error("sourceIndex and targetIndex must differ");
+          const [source, target]: any[] = await Promise.all([client.getIndex(p.sourceIndex), client.getIndex(p.targetIndex)]);
+          const sourceKey = (source?.fields || []).find((f: any) => f.key)?.name;
+          const targetKey = (target?.fields || []).find((f: any) => f.key)?.name;
+          const rename: Record<string, string> = p.renameFields || {};
+          const drop = new Set<string>(p.dropFields || []);
+          const defaults: Record<string, unknown> = p.defaults || {};
+          const targetFields = new Set<string>((target?.fields || []).map((f: any) => f.name));
+
+          const errors: string[] = [];
+          const warnings: string[] = [];
+          if (!sourceKey) errors.push(`Source index '${p.sourceIndex}' has no key field`);
+          const sourceKeyDef = (source?.fields || []).find((f: any) => f.key);
+          if (sourceKeyDef && (sourceKeyDef.sortable === false || sourceKeyDef.filterable === false)) {
+            errors.push(`Source key '${sourceKey}' must be sortable and filterable to copy in key order`);
+          }
+          if (sourceKey && drop.has(sourceKey)) errors.push(`The source key '${sourceKey}' cannot be dropped`);
+          if (!targetKey) errors.push(`Target index '${p.targetIndex}' has no key field`);
+
+          const copied: string[] = [];
+          for (const f of source?.fields || []) {
+            if (drop.has(f.name)) continue;
+            if (f.retrievable === false || f.stored === false) {
+              warnings.push(`Source field '${f.name}' is not retrievable and cannot be copied`);
+              continue;
+            }
+            const to = rename[f.name] ?? f.name;
+            if (!targetFields.has(to)) errors.push(`Field '${f.name}' maps to '${to}', which is not in the target index (rename or drop it)`);
+            else copied.push(f.name);
+          }
+          for (const from of Object.keys(rename)) {
+            if (!(source?.fields || []).some((f: any) => f.name === from)) errors.push(`renameFields: '${from}' is not a source field`);
+          }
+          for (const name of Object.keys(defaults)) {
+            if (!targetFields.has(name)) errors.push(`defaults: '${name}' is not a target field`);
+          }
+          if (targetKey && defaults[targetKey] !== undefined) {
+            // A constant key would collapse every copied document into one
+            errors.push(`defaults: '${targetKey}' is the target key and must come from a source field`);
+          }
+          const keySource = copied.find((name) => (rename[name] ?? name) === targetKey);
+          if (sourceKey && targetKey && !keySource) {
+            errors.push(`No source field maps to target key '${targetKey}'; rename '${sourceKey}' (or another unique field) to it`);
+          } else if (keySource && keySource !== sourceKey) {
+            warnings.push(`Target key '${targetKey}' comes from '${keySource}', not the source key; duplicate values overwrite each other`);
+          }
+          if (errors.length > 0) {
+            throw new Error(`Validation failed:\n${errors.join("\n")}`);
+          }
+
+          const transform = (doc: Record<string, unknown>): IndexAction => {
+            const out: Record<string, unknown> = {};
+            for (const [k, v] of Object.entries(doc)) {
+              if (drop.has(k)) continue;
+              out[rename[k] ?? k] = v;
+            }
+            for (const [k, v] of Object.entries(defaults)) {
+              if (out[k] === undefined || out[k] === null) out[k] = v;
+            }
+            return { "@search.action": "mergeOrUpload", ...out } as IndexAction;
+          };
+
+          const total = await client.getDocumentCount(p.sourceIndex).catch(() => undefined);
+          const totals = { read: 0, succeeded: 0, failed: 0, batches: 0, retriedKeys: 0 };
+          const failedKeys: Array<{ key: string; statusCode: number | null; errorMessage: string }> = [];
+          let cursor: string | undefined = p.cursor;
+          let hasMore = true;
+
+          while (hasMore && Date.now() < deadline) {
+            const page = await keysetPaginate<Record<string, unknown>>(
+              async (afterKey, top) => {
+                const range = afterKey !== undefined ? `${sourceKey} gt '${afterKey.replace(/'/g, "''")}'` : undefined;
+                const filter = [p.filter ? `(${p.filter})` : undefined, range].filter(Boolean).join(" and ") || undefined;
+                const result = await client.searchDocuments(p.sourceIndex, {
+                  search: "*",
+                  filter,
+                  orderby: `${sourceKey} asc`,
+                  top,
+                  select: copied.join(","),
+                });
+                return (result.value || []).map((hit: any) => stripSearchMetadata(hit));
+              },
+              (doc) => String(doc[sourceKey]),
+              { pageSize: p.pageSize, cursor },
+            );
+
+            if (page.items.length > 0) {
+              const report = await bulkIndex(page.items.map(transform), {
+                keyField: targetKey,
+                send: (batch) => client.indexDocuments(p.targetIndex, { value: batch }),
+                concurrency: p.concurrency,
+              });
+              totals.read += page.items.length;
+              totals.succeeded += report.succeeded;
+              totals.failed += report.failed;
+              totals.batches += report.batches;
+              totals.retriedKeys += report.retriedKeys;
+              failedKeys.push(...report.failedKeys);
+            }
+
+            hasMore = page.hasMore;
+            cursor = page.nextCursor ?? cursor;
+            await reportProgress(extra, totals.read, total, `Copied ${totals.succeeded} of ${total ?? "?"} documents to ${p.targetIndex}`);
+          }
+
+          return {
+            success: totals.failed === 0,
+            complete: !hasMore,
+            sourceIndex: p.sourceIndex,
+            targetIndex: p.targetIndex,
+            sourceDocumentCount: total ?? null,
+            ...totals,
+            failedKeys: failedKeys.slice(0, MAX_REPORTED_ROW_ERRORS),
+            failedKeysTruncated: failedKeys.length > MAX_REPORTED_ROW_ERRORS,
+            warnings,
+            nextCursor: hasMore ? cursor ?? null : null,
+            message: hasMore ? "Time limit reached; call copyDocuments again with nextCursor to continue" : undefined,
+            durationMs: Date.now() - started,
+          };
+        },
+        { sourceIndex: params.sourceIndex, targetIndex: params.targetIndex },
+      );
+    },
+  );
 }
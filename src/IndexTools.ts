@@ -7,10 +7,12 @@ import getToolHints from "./utils/toolHints";
 import { paginateArray } from "./utils/streaming-pagination";
 import { withTimeout } from "./utils/timeout";
 import type { ToolContext } from "./types";
+import type { AzureSearchClient } from "./azure-search-client";
 import { ToolElicitationBuilder } from "./tool-elicitation";
 import { elicitIfNeeded, mergeElicitedParams, needsElicitation } from "./utils/elicitation-integration";
 import { IndexNameSchema, IndexDefinitionSchema, IndexFieldSchema, PaginationSchema } from "./schemas";
 import { MAX_PAGE_SIZE, DEFAULT_PAGE_SIZE, DEFAULT_TIMEOUT_MS } from "./constants";
+import { diffIndexDefinitions } from "./utils/index-diff";
 
 /** Local validation helper to keep behavior consistent with previous implementation. */
 function validateIndexDefinition(def: any): string[] {
@@ -87,11 +89,23 @@ function validateIndexDefinition(def: any): string[] {
   return errors;
 }
 
+// Only a missing index means "nothing to compare against"; auth and throttling errors must surface.
+// The result gates the write, so the read skips the response cache.
+async function getIndexOrNull(client: AzureSearchClient, indexName: string): Promise<any | null> {
+  try {
+    return await client.fresh().getIndex(indexName);
+  } catch (e: any) {
+    const status = e?.statusCode ?? e?.response?.status;
+    if (status === 404) return null;
+    throw e;
+  }
+}
+
 /**
  * Register Index management tools on the provided MCP server.
  * Tools:
- *  - listIndexes, getIndex, getIndexStats, deleteIndex
- *  - createIndex, createOrUpdateIndex
+ *  - listIndexes, getIndex, getIndexStats, listSuggesters, deleteIndex
+ *  - createIndex, createOrUpdateIndex, diffIndexDefinitions
  */
 export function registerIndexTools(server: any, context: ToolContext) {
   const { getClient, getSummarizer } = context;
@@ -254,6 +268,55 @@ export function registerIndexTools(server: any, context: ToolContext) {
     getToolHints("GET"),
   );
 
+  server.tool(
+    "listSuggesters",
+    "List the suggesters defined on an index, with their source fields. Use these names with the suggest and autocomplete tools.",
+    { indexName: z.string() },
+    getToolHints("GET"),
+    async ({ indexName }: { indexName: string }) => {
+      const client = getClient();
+      const exec = rf.createToolExecutor<{ indexName: string }>("listSuggesters", DEFAULT_TIMEOUT_MS);
+      return exec(
+        { indexName },
+        async (p) => {
+          const index: any = await client.getIndex(p.indexName);
+          const suggesters = (Array.isArray(index?.suggesters) ? index.suggesters : []).map((s: any) => ({
+            name: s.name,
+            searchMode: s.searchMode,
+            sourceFields: s.sourceFields || [],
+          }));
+          return { indexName: p.indexName, suggesters, count: suggesters.length };
+        },
+        { indexName },
+      );
+    },
+  );
+
+  server.tool(
+    "diffIndexDefinitions",
+    "Compare a proposed index definition with the live one (getIndex) and classify each change: additive, inPlace, requiresDowntime (needs allowIndexDowntime) or requiresRebuild. Nothing is modified.",
+    {
+      indexName: z.string(),
+      proposedDefinition: z
+        .object({ fields: z.array(z.any()).optional() })
+        .passthrough()
+        .describe("Full or partial index definition; omitted sections are treated as unchanged"),
+    },
+    getToolHints("GET"),
+    async ({ indexName, proposedDefinition }: { indexName: string; proposedDefinition: any }) => {
+      const client = getClient();
+      const exec = rf.createToolExecutor<{ indexName: string }>("diffIndexDefinitions", DEFAULT_TIMEOUT_MS);
+      return exec(
+        { indexName },
+        async (p) => {
+          const current: any = await client.getIndex(p.indexName);
+          return diffIndexDefinitions(current, { ...proposedDefinition, name: p.indexName });
+        },
+        { indexName },
+      );
+    },
+  );
+
   server.tool(
     "deleteIndex",
     "⚠️ DESTRUCTIVE: Permanently delete an index and all its documents. This action cannot be undone. Please confirm carefully before proceeding.",
@@ -278,6 +341,8 @@ export function registerIndexTools(server: any, context: ToolContext) {
           if (!confirmed.understood) {
             throw new Error("User did not acknowledge the permanent nature of this action");
           }
+        } else if (context.serverMode === "standard") {
+          throw new Error("Deletion requires confirmation through elicitation in SERVER_MODE=standard; the client declined or does not support it");
         }
 
         await rf.executeWithTimeout(client.deleteIndex(indexName), DEFAULT_TIMEOUT_MS, "deleteIndex", { indexName });
@@ -298,7 +363,7 @@ export function registerIndexTools(server: any, context: ToolContext) {
         .optional()
         .describe("Use a pre-built template for common scenarios"),
       indexName: z.string().optional().describe("Index name (lowercase letters, numbers, hyphens only, max 128 chars)"),
-      cloneFrom: z.string().optional().describe("Clone structure from an existing index (copies schema but not data)"),
+      cloneFrom: z.string().optional().describe("Clone structure from an existing index (copies schema but not data; use copyDocuments for the data)"),
       vectorDimensions: z.number().optional().describe("Vector dimensions for hybrid search template (default: 1536)"),
       language: z
         .string()
@@ -433,7 +498,7 @@ export function registerIndexTools(server: any, context: ToolContext) {
 
   server.tool(
     "createOrUpdateIndex",
-    "Create or update a search index with smart field addition.",
+    "Create or update a search index with smart field addition. Updates to an existing index are diffed first (see diffIndexDefinitions): changes that need a rebuild are rejected, and changes that take the index offline require allowIndexDowntime=true. Use dryRun to see the diff without applying it.",
     {
       indexName: z.string(),
       addFields: z
@@ -460,6 +525,8 @@ export function registerIndexTools(server: any, context: ToolContext) {
         .describe("Update semantic search configuration"),
       validate: z.boolean().optional().default(true),
       mergeWithExisting: z.boolean().optional().default(true).describe("Merge with existing definition or replace"),
+      allowIndexDowntime: z.boolean().optional().default(false).describe("Allow updates (e.g. new analyzers) that take the index offline briefly"),
+      dryRun: z.boolean().optional().default(false).describe("Return the change diff without applying it"),
       indexDefinition: z
         .object({
           name: z.string(),
@@ -480,19 +547,21 @@ export function registerIndexTools(server: any, context: ToolContext) {
         .optional(),
     },
     getToolHints("PUT"),
-    async ({ indexName, addFields, updateSemanticConfig, validate, mergeWithExisting, indexDefinition }: any) => {
+    async ({ indexName, addFields, updateSemanticConfig, validate, mergeWithExisting, allowIndexDowntime, dryRun, indexDefinition }: any) => {
       try {
         const client = getClient();
         let finalDefinition: any;
         let etag: string | undefined;
+        let currentIndex: any = null;
 
         if (mergeWithExisting || addFields || updateSemanticConfig) {
           // Fetch with timeout to prevent hanging
-          const existingIndex: any = await withTimeout(client.getIndex(indexName), DEFAULT_TIMEOUT_MS, `getIndex:${indexName}`);
+          const existingIndex: any = await withTimeout(client.fresh().getIndex(indexName), DEFAULT_TIMEOUT_MS, `getIndex:${indexName}`);
+          currentIndex = existingIndex;
 
           // Preserve ETag for optimistic concurrency control
           etag = existingIndex["@odata.etag"];
-          finalDefinition = { ...(existingIndex as any) };
+          finalDefinition = { ...(existingIndex as any), fields: [...(existingIndex.fields || [])] };
 
           if (addFields && Array.isArray(addFields)) {
             const existingNames = new Set(finalDefinition.fields.map((f: any) => f.name));
@@ -543,7 +612,7 @@ export function registerIndexTools(server: any, context: ToolContext) {
           // Prevent removals if indexDefinition provided (compat rule)
           if (indexDefinition?.fields) {
             const existingIndex: any = await withTimeout(
-              client.getIndex(indexName).catch(() => null),
+              getIndexOrNull(client, indexName),
               DEFAULT_TIMEOUT_MS,
               `getIndex:${indexName}:validation`,
             );
@@ -564,10 +633,35 @@ export function registerIndexTools(server: any, context: ToolContext) {
           }
         }
 
+        // Dry-run diff against the live definition before writing
+        if (!currentIndex) {
+          currentIndex = await withTimeout(getIndexOrNull(client, indexName), DEFAULT_TIMEOUT_MS, `getIndex:${indexName}:diff`);
+        }
+        if (currentIndex) {
+          const diff = diffIndexDefinitions(currentIndex, finalDefinition);
+          if (dryRun) {
+            return rf.formatSuccess({ dryRun: true, applied: false, diff });
+          }
+          const blockers = diff.changes.filter(
+            (c) => c.impact === "requiresRebuild" || (c.impact === "requiresDowntime" && !allowIndexDowntime),
+          );
+          if (blockers.length > 0) {
+            const reason = diff.impact === "requiresRebuild" ? "requires an index rebuild" : "requires allowIndexDowntime=true";
+            throw new Error(
+              `Index update ${reason}:\n${blockers.map((c) => `${c.path} (${c.kind}): ${c.reason}`).join("\n")}\n${diff.recommendation}`,
+            );
+          }
+        } else if (dryRun) {
+          return rf.formatSuccess({ dryRun: true, applied: false, message: `Index '${indexName}' does not exist; it would be created` });
+        }
+
         // Fix #5: Pass etag as separate parameter for If-Match header
-        return rf.executeWithTimeout(client.createOrUpdateIndex(indexName, finalDefinition, etag), DEFAULT_TIMEOUT_MS, "createOrUpdateIndex", {
-          indexName,
-        });
+        return rf.executeWithTimeout(
+          client.createOrUpdateIndex(indexName, finalDefinition, etag, { allowIndexDowntime }),
+          DEFAULT_TIMEOUT_MS,
+          "createOrUpdateIndex",
+          { indexName },
+        );
       } catch (e) {
         return rf.formatError(e, { tool: "createOrUpdateIndex", indexName });
       }
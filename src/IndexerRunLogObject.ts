@@ -0,0 +1,41 @@
+// src/IndexerRunLogObject.ts
+/**
+ * Singleton Durable Object holding the recorded indexer runs for every MCP session, keyed by service
+ * endpoint and indexer. Session agents call it over RPC; see utils/indexer-runs.ts for the run format.
+ */
+import { DurableObject } from "cloudflare:workers";
+import { IndexerRunStore, type IndexerRun } from "./utils/indexer-runs";
+import type { SqlExecutor } from "./types";
+
+export const INDEXER_RUN_LOG_OBJECT_NAME = "indexer-runs";
+
+export class IndexerRunLog extends DurableObject {
+  private readonly store: IndexerRunStore;
+
+  constructor(ctx: DurableObjectState, env: unknown) {
+    super(ctx, env);
+    const sql: SqlExecutor = (strings, ...values) =>
+      ctx.storage.sql.exec(strings.join("?"), ...values).toArray() as any[];
+    this.store = new IndexerRunStore(sql);
+  }
+
+  async record(run: IndexerRun): Promise<boolean> {
+    return this.store.record(run);
+  }
+
+  async recordStatus(endpoint: string, indexer: string, status: any): Promise<IndexerRun[]> {
+    return this.store.recordStatus(endpoint, indexer, status);
+  }
+
+  async list(endpoint: string, indexer: string, limit?: number): Promise<IndexerRun[]> {
+    return this.store.list(endpoint, indexer, limit);
+  }
+
+  async listSince(endpoint: string, indexer: string, since: string): Promise<IndexerRun[]> {
+    return this.store.listSince(endpoint, indexer, since);
+  }
+
+  async firstRecorded(endpoint: string, indexer: string): Promise<string | null> {
+    return this.store.firstRecorded(endpoint, indexer);
+  }
+}
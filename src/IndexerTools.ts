@@ -6,6 +6,12 @@ import type { ToolContext } from "./types";
 import { DEFAULT_TIMEOUT_MS } from "./constants";
 import type { ElicitationRequest } from "./tool-elicitation";
 import { elicitIfNeeded, needsElicitation } from "./utils/elicitation-integration";
+import { buildIndexer, MAPPING_FUNCTIONS } from "./utils/indexer-builder";
+import { getLiveDefinition } from "./utils/resource-plan";
+import { extractEtag } from "./utils/verify";
+import { groupIssues, summarizeCauses } from "./utils/indexer-errors";
+import { computeIndexerTrends, trendWindowStart } from "./utils/indexer-trends";
+import { finishedRuns } from "./utils/indexer-runs";
 
 // Elicitation schema for Blob indexer creation/update
 function createBlobIndexerElicitation(): ElicitationRequest {
@@ -62,8 +68,9 @@ function createBlobIndexerElicitation(): ElicitationRequest {
  * Tools:
  *  - listIndexers, getIndexer
  *  - runIndexer, resetIndexer
- *  - getIndexerStatus
+ *  - getIndexerStatus, analyzeIndexerErrors, getIndexerTrends
  *  - createOrUpdateBlobIndexer
+ *  - createOrUpdateIndexer (any data source, skillset, validated mappings)
  */
 export function registerIndexerTools(server: any, context: ToolContext) {
   const { getClient } = context;
@@ -72,6 +79,16 @@ export function registerIndexerTools(server: any, context: ToolContext) {
     if (!s) return null;
     return (text: string, maxTokens?: number) => s(text, maxTokens ?? 800);
   });
+
+  // Keep every finished run the service reports, for getIndexerTrends
+  const recordRuns = async (endpoint: string, name: string, status: any) => {
+    try {
+      await context.indexerRuns?.recordStatus(endpoint, name, status);
+    } catch (e) {
+      console.error(`Could not record runs of indexer '${name}'`, e);
+    }
+  };
+
   // ---------------- INDEXERS ----------------
   server.tool("listIndexers", "List indexer names.", {}, getToolHints("GET" as const), async () => {
     const client = getClient();
@@ -101,7 +118,7 @@ export function registerIndexerTools(server: any, context: ToolContext) {
     }
   });
 
-  server.tool("resetIndexer", "Reset change tracking for an indexer (full re-crawl).", { name: z.string() }, getToolHints("POST" as const), async ({ name }: { name: string }) => {
+  server.tool("resetIndexer", "Reset change tracking for an indexer (full re-crawl).", { name: z.string() }, { ...getToolHints("POST" as const), destructiveHint: true }, async ({ name }: { name: string }) => {
     try {
       const client = getClient();
       await rf.executeWithTimeout(client.resetIndexer(name), DEFAULT_TIMEOUT_MS, "resetIndexer", { tool: "resetIndexer", name });
@@ -122,7 +139,8 @@ export function registerIndexerTools(server: any, context: ToolContext) {
     async ({ name, historyLimit }: { name: string; historyLimit: number }) => {
       const client = getClient();
       return rf.executeWithTimeout(
-        client.getIndexerStatus(name).then((status: any) => {
+        client.getIndexerStatus(name).then(async (status: any) => {
+          await recordRuns(client.getEndpoint(), name, status);
           if (status.executionHistory && Array.isArray(status.executionHistory)) {
             status.executionHistory = status.executionHistory.slice(0, historyLimit);
             if (status.executionHistory.length < historyLimit) {
@@ -141,6 +159,98 @@ export function registerIndexerTools(server: any, context: ToolContext) {
     },
   );
 
+  server.tool(
+    "analyzeIndexerErrors",
+    "Analyze the errors and warnings of an indexer's recent runs. Groups them by skill, normalized message and document key pattern, counts each group, and links it to a likely cause and fix (document too large, skill timeout, throttling, bad mapping, vector dimension mismatch, ...).",
+    {
+      name: z.string(),
+      runs: z.number().int().positive().max(50).default(1).describe("Most recent runs to analyze"),
+      includeWarnings: z.boolean().default(true),
+      sampleKeys: z.number().int().min(0).max(20).default(3).describe("Example document keys to keep per group"),
+    },
+    getToolHints("GET" as const),
+    async (params: any) => {
+      const client = getClient();
+      const exec = rf.createToolExecutor<typeof params>("analyzeIndexerErrors", DEFAULT_TIMEOUT_MS);
+      return exec(params, async (p) => {
+        const status: any = await client.getIndexerStatus(p.name);
+        await recordRuns(client.getEndpoint(), p.name, status);
+        const history: any[] = status.executionHistory?.length ? status.executionHistory : status.lastResult ? [status.lastResult] : [];
+        const runs = history.slice(0, p.runs);
+
+        const errorGroups = groupIssues(runs.map((r) => r.errors ?? []), p.sampleKeys);
+        const warningGroups = p.includeWarnings ? groupIssues(runs.map((r) => r.warnings ?? []), p.sampleKeys) : [];
+        const totalErrors = errorGroups.reduce((n, g) => n + g.count, 0);
+        const totalWarnings = warningGroups.reduce((n, g) => n + g.count, 0);
+        return {
+          indexer: p.name,
+          indexerStatus: status.status,
+          runsAnalyzed: runs.length,
+          runs: runs.map((r) => ({
+            status: r.status,
+            startTime: r.startTime,
+            endTime: r.endTime,
+            itemsProcessed: r.itemsProcessed,
+            itemsFailed: r.itemsFailed,
+            errors: r.errors?.length ?? 0,
+            warnings: r.warnings?.length ?? 0,
+            errorMessage: r.errorMessage ?? null,
+          })),
+          totals: { errors: totalErrors, warnings: totalWarnings, errorGroups: errorGroups.length, warningGroups: warningGroups.length },
+          causes: summarizeCauses(errorGroups),
+          errorGroups,
+          warningGroups,
+          message:
+            runs.length === 0
+              ? `Indexer '${p.name}' has no recorded runs`
+              : totalErrors === 0
+                ? `No errors in the last ${runs.length} run(s)`
+                : `${totalErrors} error(s) in ${errorGroups.length} group(s) over the last ${runs.length} run(s)`,
+        };
+      });
+    },
+  );
+
+  server.tool(
+    "getIndexerTrends",
+    "Report an indexer's run trends over days or weeks from the runs this server has recorded (each getIndexerStatus, analyzeIndexerErrors, runIndexerWithProgress or watch read stores them) plus the runs the service still reports; this tool itself stores nothing: throughput in docs/min, failure rate, duration percentiles per day or week, and regressions of the latest period against the rest of the window. Pass slaMinutes to see runs over the SLA and the p95 headroom.",
+    {
+      name: z.string(),
+      days: z.number().int().positive().max(90).default(14),
+      bucket: z.enum(["day", "week"]).default("day"),
+      slaMinutes: z.number().positive().optional().describe("Maximum acceptable run duration"),
+    },
+    getToolHints("GET" as const),
+    async (params: any) => {
+      const client = getClient();
+      const exec = rf.createToolExecutor<typeof params>("getIndexerTrends", DEFAULT_TIMEOUT_MS);
+      return exec(params, async (p) => {
+        const store = context.indexerRuns;
+        if (!store) throw new Error("Indexer run history is unavailable: Durable Object SQLite storage is not configured");
+        const endpoint = client.getEndpoint();
+        const since = trendWindowStart(p.days);
+        // Merge in the runs the service still reports without recording them, so this read writes nothing
+        const reported = finishedRuns(endpoint, p.name, await client.getIndexerStatus(p.name)); // newest first
+        const recorded = await store.listSince(endpoint, p.name, since);
+        const seen = new Set(recorded.map((r) => r.startTime));
+        const runs = [...recorded, ...reported.filter((r) => r.startTime >= since && !seen.has(r.startTime))].sort((a, b) =>
+          a.startTime.localeCompare(b.startTime),
+        );
+        const firstStored = await store.firstRecorded(endpoint, p.name);
+        const oldestReported = reported[reported.length - 1]?.startTime ?? null;
+        const firstRecorded =
+          firstStored && oldestReported ? (firstStored < oldestReported ? firstStored : oldestReported) : (firstStored ?? oldestReported);
+        return {
+          indexer: p.name,
+          window: { since, days: p.days, bucket: p.bucket },
+          firstRecordedRun: firstRecorded,
+          partialWindow: !firstRecorded || firstRecorded > since,
+          ...computeIndexerTrends(runs, { bucket: p.bucket, slaMinutes: p.slaMinutes }),
+        };
+      });
+    },
+  );
+
   // NEW: Create or update a Blob indexer pointing to the given data source and index
   const CreateOrUpdateBlobIndexerParams = {
     name: z.string().optional().describe("Indexer name"),
@@ -317,6 +427,103 @@ export function registerIndexerTools(server: any, context: ToolContext) {
     },
   );
 
+  const MappingParam = z.object({
+    sourceFieldName: z.string().min(1),
+    targetFieldName: z.string().min(1),
+    mappingFunction: z
+      .object({
+        name: z.enum(MAPPING_FUNCTIONS),
+        parameters: z.record(z.union([z.string(), z.number(), z.boolean()])).optional(),
+      })
+      .nullable()
+      .optional(),
+  });
+
+  server.tool(
+    "createOrUpdateIndexer",
+    "Create or update an indexer for any data source type, optionally with a skillset. Field mappings (with mapping functions such as base64Encode, extractTokenAtPosition, jsonArrayToStringCollection, urlDecode) are checked against the target index's fields and the data source type; output field mappings are checked against the outputs the skillset's skills declare. When updating, properties you omit are kept from the existing indexer (with a warning) and the write fails if the indexer changed since it was read.",
+    {
+      name: z.string().min(1).describe("Indexer name"),
+      dataSourceName: z.string().min(1).describe("Existing data source name"),
+      targetIndexName: z.string().min(1).describe("Existing target index name"),
+      skillsetName: z.string().optional().describe("Existing skillset to run on each document"),
+      description: z.string().optional().describe("Omit to keep an existing indexer's description"),
+      scheduleInterval: z
+        .string()
+        .nullable()
+        .optional()
+        .describe("ISO-8601 duration (e.g., PT2H). Omit to keep an existing indexer's schedule; null (or no schedule on create) runs on demand only"),
+      scheduleStartTime: z.string().datetime().optional(),
+      fieldMappings: z
+        .array(MappingParam)
+        .optional()
+        .describe("Source field -> index field, with an optional mapping function. Omit to keep an existing indexer's mappings; [] removes them"),
+      outputFieldMappings: z
+        .array(MappingParam.omit({ mappingFunction: true }))
+        .optional()
+        .describe("Skillset output path (e.g. /document/pages/*/keyPhrases/*) -> index field. Omit to keep an existing indexer's mappings"),
+      batchSize: z.number().int().positive().optional().describe("Documents per batch; the service default depends on the data source type"),
+      maxFailedItems: z.number().int().min(-1).optional().describe("Failures tolerated per run before it fails; -1 for no limit"),
+      maxFailedItemsPerBatch: z.number().int().min(-1).optional().describe("Failures tolerated per batch; -1 for no limit"),
+      configuration: z
+        .record(z.any())
+        .optional()
+        .describe(
+          "parameters.configuration, e.g. { parsingMode: 'json', dataToExtract: 'contentAndMetadata' }. Omit to keep an existing indexer's configuration; {} clears it",
+        ),
+      disabled: z.boolean().optional().describe("Omit to keep an existing indexer's setting"),
+      runNow: z.boolean().default(false),
+    },
+    getToolHints("POST" as const),
+    async (params: any) => {
+      const client = getClient();
+      const exec = rf.createToolExecutor<typeof params>("createOrUpdateIndexer", DEFAULT_TIMEOUT_MS);
+      return exec(params, async (p) => {
+        const [index, dataSource, skillset, indexer] = await Promise.all([
+          getLiveDefinition(client, "index", p.targetIndexName),
+          getLiveDefinition(client, "dataSource", p.dataSourceName),
+          p.skillsetName ? getLiveDefinition(client, "skillset", p.skillsetName) : Promise.resolve(null),
+          getLiveDefinition(client, "indexer", p.name),
+        ]);
+        const missing = [
+          !index && `index '${p.targetIndexName}'`,
+          !dataSource && `data source '${p.dataSourceName}'`,
+          p.skillsetName && !skillset && `skillset '${p.skillsetName}'`,
+        ].filter(Boolean);
+        if (missing.length > 0) {
+          const error: any = new Error(`Not found: ${missing.join(", ")}`);
+          error.statusCode = 404;
+          throw error;
+        }
+
+        const { definition, warnings } = buildIndexer(p, { index, dataSource, skillset, indexer });
+        // If-Match so a change made since the read above fails instead of being overwritten
+        const created = await client.createOrUpdateIndexer(
+          p.name,
+          definition,
+          indexer ? { ifMatch: extractEtag(indexer) ?? undefined } : { ifNoneMatch: "*" },
+        );
+        let runError: string | null = null;
+        if (p.runNow) {
+          try {
+            await client.runIndexer(p.name);
+          } catch (runErr) {
+            runError = String(runErr);
+          }
+        }
+        return {
+          success: !runError,
+          message: runError
+            ? `Indexer '${p.name}' created/updated, but run failed: ${runError}`
+            : `Indexer '${p.name}' created/updated${p.runNow ? " and started" : ""}.`,
+          dataSourceType: dataSource.type,
+          warnings,
+          indexer: created,
+        };
+      });
+    },
+  );
+
   // Progress-emitting run
   server.tool(
     "runIndexerWithProgress",
@@ -340,6 +547,7 @@ export function registerIndexerTools(server: any, context: ToolContext) {
         while (!done && attempts++ < max) {
           await new Promise((r) => setTimeout(r, (pollSeconds ?? 5) * 1000));
           const s: any = await c.getIndexerStatus(indexerName);
+          await recordRuns(c.getEndpoint(), indexerName, s);
           const lr = s?.lastResult;
           const status = lr?.status ?? s?.status ?? "unknown";
 
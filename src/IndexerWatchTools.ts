@@ -0,0 +1,126 @@
+// src/IndexerWatchTools.ts
+import { z } from "zod";
+import { ResponseFormatter } from "./utils/response";
+import getToolHints from "./utils/toolHints";
+import type { ToolContext } from "./types";
+import { currentService } from "./utils/service-profiles";
+import { indexerResourceUri, type IndexerWatcher } from "./utils/indexer-watch";
+import {
+  DEFAULT_TIMEOUT_MS,
+  DEFAULT_WATCH_DURATION_MINUTES,
+  DEFAULT_WATCH_POLL_SECONDS,
+  MAX_WATCH_DURATION_MINUTES,
+  MIN_WATCH_POLL_SECONDS,
+} from "./constants";
+
+/**
+ * Register background indexer watch tools. Watches are polled by the Durable Object's alarm after the
+ * tool call returns; finished runs are recorded and pushed to subscribers of `indexers/{name}`.
+ * Tools:
+ *  - watchIndexer, unwatchIndexer
+ *  - listIndexerWatches
+ */
+export function registerIndexerWatchTools(server: any, context: ToolContext) {
+  const { getClient } = context;
+  const rf = new ResponseFormatter(() => {
+    const s = context.getSummarizer?.();
+    if (!s) return null;
+    return (text: string, maxTokens?: number) => s(text, maxTokens ?? 800);
+  });
+
+  const getWatcher = (): IndexerWatcher => {
+    if (!context.indexerWatcher) throw new Error("Indexer watches are unavailable: Durable Object alarms and SQLite storage are not configured");
+    return context.indexerWatcher;
+  };
+
+  server.tool(
+    "watchIndexer",
+    "Watch an indexer in the background. Its status is polled on a Durable Object alarm after this call returns; each finished run is recorded, and subscribers of the indexers/{name} resource get notifications/resources/updated when a run finishes or fails. Optionally start a run now.",
+    {
+      name: z.string().min(1),
+      runNow: z.boolean().default(false).describe("Start a run after the watch is in place"),
+      pollSeconds: z.number().int().min(MIN_WATCH_POLL_SECONDS).max(3600).default(DEFAULT_WATCH_POLL_SECONDS),
+      durationMinutes: z
+        .number()
+        .int()
+        .positive()
+        .max(MAX_WATCH_DURATION_MINUTES)
+        .default(DEFAULT_WATCH_DURATION_MINUTES)
+        .describe("Stop watching after this long"),
+      stopAfterRun: z.boolean().default(false).describe("Stop watching once one run finishes"),
+    },
+    getToolHints("POST" as const),
+    async (params: any) => {
+      const client = getClient();
+      const exec = rf.createToolExecutor<typeof params>("watchIndexer", DEFAULT_TIMEOUT_MS);
+      return exec(params, async (p) => {
+        const watcher = getWatcher();
+        const existed = watcher.get(client.getEndpoint(), p.name) !== null;
+        const watch = await watcher.watch({
+          client,
+          service: currentService() ?? context.profiles?.getDefaultName() ?? null,
+          indexer: p.name,
+          pollSeconds: p.pollSeconds,
+          durationMinutes: p.durationMinutes,
+          stopAfterRun: p.stopAfterRun,
+        });
+        if (p.runNow) {
+          try {
+            await client.runIndexer(p.name);
+          } catch (e) {
+            // Don't leave a watch behind for a run that never started
+            if (!existed) await watcher.unwatch(client.getEndpoint(), p.name);
+            throw e;
+          }
+        }
+        return {
+          success: true,
+          message: `Watching indexer '${p.name}' every ${p.pollSeconds}s until ${watch.expiresAt}${p.runNow ? "; run started" : ""}. Subscribe to ${indexerResourceUri(p.name)} for completion notifications.`,
+          resourceUri: indexerResourceUri(p.name),
+          subscribed: context.resourceSubscriptions?.isSubscribed(indexerResourceUri(p.name)) ?? false,
+          watch,
+        };
+      });
+    },
+  );
+
+  server.tool(
+    "unwatchIndexer",
+    "Stop the background watch on an indexer.",
+    { name: z.string().min(1) },
+    getToolHints("POST" as const),
+    async (params: any) => {
+      const client = getClient();
+      const exec = rf.createToolExecutor<typeof params>("unwatchIndexer", DEFAULT_TIMEOUT_MS);
+      return exec(params, async (p) => {
+        const removed = await getWatcher().unwatch(client.getEndpoint(), p.name);
+        return { success: true, removed, message: removed ? `Stopped watching indexer '${p.name}'` : `Indexer '${p.name}' was not being watched` };
+      });
+    },
+  );
+
+  server.tool(
+    "listIndexerWatches",
+    "List this session's background indexer watches with the runs each has recorded.",
+    {
+      recentRuns: z.number().int().min(0).max(50).default(5).describe("Recorded runs to include per watch"),
+    },
+    getToolHints("GET" as const),
+    async (params: any) => {
+      const exec = rf.createToolExecutor<typeof params>("listIndexerWatches", DEFAULT_TIMEOUT_MS);
+      return exec(params, async (p) => {
+        const watches = getWatcher().list();
+        return {
+          count: watches.length,
+          watches: await Promise.all(
+            watches.map(async (w) => ({
+              ...w,
+              subscribed: context.resourceSubscriptions?.isSubscribed(indexerResourceUri(w.indexer)) ?? false,
+              recentRuns: p.recentRuns > 0 ? ((await context.indexerRuns?.list(w.endpoint, w.indexer, p.recentRuns)) ?? []) : [],
+            })),
+          ),
+        };
+      });
+    },
+  );
+}
@@ -1,7 +1,8 @@
 // src/KnowledgeAgentTools.ts
 import { z } from "zod";
 import { ResponseFormatter } from "./utils/response";
-import type { ToolContext } from "./types";
+import getToolHints from "./utils/toolHints";
+import type { ToolContext, KnowledgeRetrievalRequest, KnowledgeRetrievalResponse } from "./types";
 import { withTimeout } from "./utils/timeout";
 import { DEFAULT_TIMEOUT_MS } from "./constants";
 
@@ -65,11 +66,43 @@ const KnowledgeAgentSchema = z.object({
   }).optional()
 });
 
+// Retrieval request schemas
+const KnowledgeAgentMessageSchema = z.object({
+  role: z.enum(["user", "assistant", "system"]),
+  content: z.union([
+    z.string(),
+    z.array(z.union([
+      z.object({ type: z.literal("text"), text: z.string() }),
+      z.object({ type: z.literal("image"), image: z.object({ url: z.string() }) })
+    ]))
+  ]).describe("Message text, or an array of text/image content parts")
+});
+
+const KnowledgeSourceParamsSchema = z.object({
+  knowledgeSourceName: z.string(),
+  kind: z.string().default("searchIndex").describe("Knowledge source kind (searchIndex, azureBlob, web)"),
+  filterAddOn: z.string().optional().describe("OData filter applied to this source's queries"),
+  includeReferences: z.boolean().optional(),
+  includeReferenceSourceData: z.boolean().optional(),
+  alwaysQuerySource: z.boolean().optional(),
+  rerankerThreshold: z.number().optional()
+});
+
+// Concatenate the assistant's text parts into a single answer string
+function extractAnswer(result: KnowledgeRetrievalResponse): string {
+  return (result.response || [])
+    .flatMap((m) => m.content || [])
+    .map((c) => (c.type === "text" ? c.text : ""))
+    .filter(Boolean)
+    .join("\n");
+}
+
 /**
  * Register Knowledge Agent management tools on the provided MCP server.
  * Tools:
  *  - listKnowledgeAgents, getKnowledgeAgent, deleteKnowledgeAgent
  *  - createKnowledgeAgent, createOrUpdateKnowledgeAgent
+ *  - retrieveWithKnowledgeAgent (agentic retrieval)
  */
 export function registerKnowledgeAgentTools(server: any, context: ToolContext) {
   const { getClient } = context;
@@ -86,6 +119,7 @@ export function registerKnowledgeAgentTools(server: any, context: ToolContext) {
     {
       verbose: z.boolean().optional().describe("Include full agent definitions")
     },
+    getToolHints("GET"),
     async (args: any) => {
       try {
         const client = getClient();
@@ -107,6 +141,7 @@ export function registerKnowledgeAgentTools(server: any, context: ToolContext) {
     {
       agentName: KnowledgeAgentNameSchema.describe("The name of the agent to retrieve")
     },
+    getToolHints("GET"),
     async (args: any) => {
       try {
         const client = getClient();
@@ -130,6 +165,7 @@ export function registerKnowledgeAgentTools(server: any, context: ToolContext) {
       agentDefinition: KnowledgeAgentSchema.describe("The agent definition"),
       validate: z.boolean().optional().describe("Validate the agent definition before creation")
     },
+    getToolHints("POST"),
     async (args: any) => {
       try {
         // Ensure name consistency
@@ -174,6 +210,7 @@ export function registerKnowledgeAgentTools(server: any, context: ToolContext) {
       ifNoneMatch: z.string().optional().describe("ETag to prevent overwriting existing agent"),
       validate: z.boolean().optional().describe("Validate the agent definition before creation")
     },
+    getToolHints("PUT"),
     async (args: any) => {
       try {
         // Ensure name consistency
@@ -214,6 +251,47 @@ export function registerKnowledgeAgentTools(server: any, context: ToolContext) {
     }
   );
 
+  // Run agentic retrieval against a knowledge agent
+  server.tool(
+    "retrieveWithKnowledgeAgent",
+    "Run agentic retrieval: send a conversation to a knowledge agent and get back the synthesized answer (or extracted data), the references it grounded on, and the activity trace of subqueries it ran.",
+    {
+      agentName: KnowledgeAgentNameSchema.describe("The knowledge agent to query"),
+      messages: z.array(KnowledgeAgentMessageSchema).min(1).describe("Conversation history; the last user message is the question"),
+      knowledgeSourceParams: z.array(KnowledgeSourceParamsSchema).optional().describe("Per-source overrides such as filterAddOn or rerankerThreshold"),
+      modality: z.enum(["answerSynthesis", "extractiveData"]).optional().describe("Override the agent's output modality for this request")
+    },
+    getToolHints("GET"),
+    async (args: any) => {
+      try {
+        const body: KnowledgeRetrievalRequest = {
+          messages: args.messages.map((m: any) => ({
+            role: m.role,
+            content: typeof m.content === "string" ? [{ type: "text", text: m.content }] : m.content
+          }))
+        };
+        if (args.knowledgeSourceParams?.length) body.knowledgeSourceParams = args.knowledgeSourceParams;
+        if (args.modality) body.outputConfiguration = { modality: args.modality };
+
+        const client = getClient();
+        const result = await withTimeout(
+          client.retrieveKnowledge(args.agentName, body),
+          DEFAULT_TIMEOUT_MS
+        );
+
+        const structured = {
+          agentName: args.agentName,
+          answer: extractAnswer(result),
+          references: result.references || [],
+          activity: result.activity || []
+        };
+        return rf.formatSuccess(structured, { structuredContent: structured });
+      } catch (error: any) {
+        return rf.formatError(error, { tool: "retrieveWithKnowledgeAgent", agentName: args.agentName });
+      }
+    }
+  );
+
   // Delete a knowledge agent
   server.tool(
     "deleteKnowledgeAgent",
@@ -222,6 +300,7 @@ export function registerKnowledgeAgentTools(server: any, context: ToolContext) {
       agentName: KnowledgeAgentNameSchema.describe("The name of the agent to delete"),
       confirmation: z.string().optional().describe("Type 'DELETE' to confirm deletion")
     },
+    getToolHints("DELETE"),
     async (args: any) => {
       try {
         // Check for explicit confirmation
@@ -1,6 +1,7 @@
 // src/KnowledgeSourceTools.ts
 import { z } from "zod";
 import { ResponseFormatter } from "./utils/response";
+import getToolHints from "./utils/toolHints";
 import type { ToolContext } from "./types";
 import { withTimeout } from "./utils/timeout";
 import { DEFAULT_TIMEOUT_MS } from "./constants";
@@ -91,6 +92,7 @@ export function registerKnowledgeSourceTools(server: any, context: ToolContext)
       verbose: z.boolean().optional().describe("Include full source definitions"),
       type: KnowledgeSourceKindSchema.optional().describe("Filter by source type")
     },
+    getToolHints("GET"),
     async (args: any) => {
       try {
         const client = getClient();
@@ -112,6 +114,7 @@ export function registerKnowledgeSourceTools(server: any, context: ToolContext)
     {
       sourceName: KnowledgeSourceNameSchema.describe("The name of the source to retrieve")
     },
+    getToolHints("GET"),
     async (args: any) => {
       try {
         const client = getClient();
@@ -135,6 +138,7 @@ export function registerKnowledgeSourceTools(server: any, context: ToolContext)
       sourceDefinition: KnowledgeSourceSchema.describe("The source definition"),
       validate: z.boolean().optional().describe("Validate the source definition before creation")
     },
+    getToolHints("POST"),
     async (args: any) => {
       try {
         // Ensure name consistency
@@ -179,6 +183,7 @@ export function registerKnowledgeSourceTools(server: any, context: ToolContext)
       ifNoneMatch: z.string().optional().describe("ETag to prevent overwriting existing source"),
       validate: z.boolean().optional().describe("Validate the source definition before creation")
     },
+    getToolHints("PUT"),
     async (args: any) => {
       try {
         // Ensure name consistency
@@ -227,6 +232,7 @@ export function registerKnowledgeSourceTools(server: any, context: ToolContext)
       sourceName: KnowledgeSourceNameSchema.describe("The name of the source to delete"),
       confirmation: z.string().optional().describe("Type 'DELETE' to confirm deletion")
     },
+    getToolHints("DELETE"),
     async (args: any) => {
       try {
         // Check for explicit confirmation
@@ -268,6 +274,7 @@ export function registerKnowledgeSourceTools(server: any, context: ToolContext)
       targetIndexName: z.string().describe("Target search index for ingested data"),
       schedule: z.string().optional().describe("Refresh schedule (e.g., 'PT2H' for every 2 hours)")
     },
+    getToolHints("POST"),
     async (args: any) => {
       try {
         // Build the knowledge source definition
@@ -322,6 +329,7 @@ export function registerKnowledgeSourceTools(server: any, context: ToolContext)
       targetIndexName: z.string().describe("Target search index for ingested data"),
       schedule: z.string().optional().describe("Refresh schedule (e.g., 'P1D' for daily)")
     },
+    getToolHints("POST"),
     async (args: any) => {
       try {
         // Build the knowledge source definition
@@ -0,0 +1,85 @@
+// src/ServiceProfileTools.ts
+import { z } from "zod";
+import { ResponseFormatter } from "./utils/response";
+import getToolHints from "./utils/toolHints";
+import type { ToolContext } from "./types";
+import { AzureSearchClient } from "./azure-search-client";
+import { isSearchServiceEndpoint, PROFILE_NAME_PATTERN } from "./utils/service-profiles";
+import { DEFAULT_TIMEOUT_MS } from "./constants";
+
+/**
+ * Register connection profile tools. Env profiles are read-only; session profiles are stored in the
+ * Durable Object's SQLite storage and visible only to this MCP session.
+ * Tools:
+ *  - listServiceProfiles
+ *  - addServiceProfile (verifies the endpoint and key first)
+ *  - removeServiceProfile
+ */
+export function registerServiceProfileTools(server: any, context: ToolContext) {
+  const rf = new ResponseFormatter(() => {
+    const s = context.getSummarizer?.();
+    if (!s) return null;
+    return (text: string, maxTokens?: number) => s(text, maxTokens ?? 800);
+  });
+
+  const getProfiles = () => {
+    if (!context.profiles) throw new Error("Service profiles are not configured");
+    return context.profiles;
+  };
+
+  server.tool(
+    "listServiceProfiles",
+    "List the named search service profiles (e.g. dev, staging, prod) that tools can target with their 'service' argument. Keys are never returned.",
+    {},
+    getToolHints("GET"),
+    async () => {
+      const exec = rf.createToolExecutor<{}>("listServiceProfiles", DEFAULT_TIMEOUT_MS);
+      return exec({}, async () => {
+        const profiles = getProfiles().list();
+        return { profiles, count: profiles.length, defaultProfile: getProfiles().getDefaultName() ?? null };
+      });
+    },
+  );
+
+  server.tool(
+    "addServiceProfile",
+    "Add (or replace) a session-scoped service profile. The endpoint must be an https search service host; it and the credentials are checked with a service statistics call before saving. Profiles from AZURE_SEARCH_PROFILES cannot be replaced. The API key is stored unencrypted in this session's Durable Object SQLite storage.",
+    {
+      name: z.string().regex(PROFILE_NAME_PATTERN).describe("Profile name, e.g. 'staging'"),
+      endpoint: z
+        .string()
+        .url()
+        .refine(isSearchServiceEndpoint, "Endpoint must be https://<service>.search.windows.net (or a sovereign cloud search host)")
+        .describe("Search service endpoint, e.g. https://my-service.search.windows.net"),
+      apiKey: z.string().min(1).optional().describe("Admin API key (omit when AZURE_SEARCH_AUTH_MODE=entra)"),
+      verify: z.boolean().default(true).describe("Check connectivity before saving"),
+    },
+    getToolHints("PUT"),
+    async (params: any) => {
+      const exec = rf.createToolExecutor<typeof params>("addServiceProfile", DEFAULT_TIMEOUT_MS);
+      // Keep the key out of error context
+      const { apiKey, ...safeParams } = params;
+      return exec(safeParams, async (p) => {
+        if (p.verify) {
+          await new AzureSearchClient(p.endpoint, getProfiles().credentialFor({ name: p.name, endpoint: p.endpoint, apiKey })).getServiceStatistics();
+        }
+        const profile = getProfiles().saveSessionProfile(p.name, p.endpoint, apiKey);
+        return { success: true, profile, message: `Profile '${p.name}' saved; pass service='${p.name}' to any tool to use it` };
+      });
+    },
+  );
+
+  server.tool(
+    "removeServiceProfile",
+    "Remove a session-scoped service profile. The search service itself is not affected.",
+    { name: z.string().min(1) },
+    getToolHints("DELETE"),
+    async (params: any) => {
+      const exec = rf.createToolExecutor<typeof params>("removeServiceProfile", DEFAULT_TIMEOUT_MS);
+      return exec(params, async (p) => {
+        if (!getProfiles().removeSessionProfile(p.name)) throw new Error(`Session profile '${p.name}' not found`);
+        return { success: true, message: `Profile '${p.name}' removed` };
+      });
+    },
+  );
+}
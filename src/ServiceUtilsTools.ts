@@ -10,6 +10,7 @@ import { DEFAULT_TIMEOUT_MS } from "./constants";
  *  - getServiceStats
  *  - getIndexStatsSummary
  *  - analyzeText
+ *  - cacheStats
  */
 export function registerServiceUtilsTools(server: any, context: ToolContext) {
   const { getClient } = context;
@@ -176,4 +177,20 @@ export function registerServiceUtilsTools(server: any, context: ToolContext) {
       );
     }
   );
-}
\ No newline at end of file
+
+  server.tool(
+    "cacheStats",
+    "Show the response cache for this service: hits, misses, ETag revalidations, invalidations and entries per resource type, with each type's TTL. Reads (definitions, stats, indexer status) are cached for a few seconds to minutes and dropped when a write touches the same object.",
+    {},
+    { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
+    async () => {
+      const client = getClient();
+      return rf.executeWithTimeout(
+        Promise.resolve(client.getCacheStats() ?? { endpoint: client.getEndpoint(), mode: "off", message: "Response caching is disabled (AZURE_SEARCH_CACHE=off)" }),
+        DEFAULT_TIMEOUT_MS,
+        "cacheStats",
+        { tool: "cacheStats" }
+      );
+    }
+  );
+}
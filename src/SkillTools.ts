@@ -370,6 +370,8 @@ Each skill requires:
           if (!confirmed.understood) {
             throw new Error("User did not acknowledge the permanent nature of this action");
           }
+        } else if (context.serverMode === "standard") {
+          throw new Error("Deletion requires confirmation through elicitation in SERVER_MODE=standard; the client declined or does not support it");
         }
 
         await rf.executeWithTimeout(
@@ -397,7 +399,7 @@ Each skill requires:
       skillsetName: z.string().describe("The name of the skillset to reset."),
       skillNames: z.array(z.string()).optional().describe("Names of skills to reset. If not provided, all skills are reset.")
     },
-    getToolHints("POST"),
+    { ...getToolHints("POST"), destructiveHint: true },
     async ({ skillsetName, skillNames }: { skillsetName: string; skillNames?: string[] }) => {
       try {
         const client = getClient();
@@ -0,0 +1,159 @@
+// src/SnapshotTools.ts
+import { z } from "zod";
+import { ResponseFormatter } from "./utils/response";
+import getToolHints from "./utils/toolHints";
+import type { ToolContext } from "./types";
+import { AzureSearchClient } from "./azure-search-client";
+import { SnapshotStore, captureSnapshot, resupplySecrets } from "./utils/snapshot-store";
+import { planResources, applyPlan } from "./utils/resource-plan";
+import { DEFAULT_TIMEOUT_MS, BULK_INGEST_TIMEOUT_MS } from "./constants";
+
+/**
+ * Register service snapshot tools. Snapshots live in the Durable Object's SQLite storage.
+ * Tools:
+ *  - snapshotService, listSnapshots, deleteSnapshot
+ *  - restoreSnapshot (same or another endpoint, secrets resupplied)
+ */
+export function registerSnapshotTools(server: any, context: ToolContext) {
+  const { getClient } = context;
+  const rf = new ResponseFormatter(() => {
+    const s = context.getSummarizer?.();
+    if (!s) return null;
+    return (text: string, maxTokens?: number) => s(text, maxTokens ?? 800);
+  });
+
+  let store: SnapshotStore | null = null;
+  const getStore = (): SnapshotStore => {
+    if (!context.sql) throw new Error("Snapshot storage is unavailable: Durable Object SQLite storage is not configured");
+    store ??= new SnapshotStore(context.sql);
+    return store;
+  };
+
+  server.tool(
+    "snapshotService",
+    "Capture a point-in-time copy of every definition on the service (indexes, indexers, data sources, skillsets, synonym maps, aliases, knowledge sources, knowledge agents) as one versioned JSON bundle. Credentials and keys are redacted; the snapshot lists each redacted value so it can be resupplied on restore.",
+    {
+      label: z.string().max(200).optional().describe("Human-readable label, e.g. 'before analyzer change'"),
+    },
+    getToolHints("POST"),
+    async (params: any) => {
+      const client = getClient();
+      const exec = rf.createToolExecutor<typeof params>("snapshotService", DEFAULT_TIMEOUT_MS);
+      return exec(params, async (p) => {
+        const snapshot = await captureSnapshot(client, p.label);
+        const summary = getStore().save(snapshot);
+        return { ...summary, redactions: snapshot.redactions };
+      });
+    },
+  );
+
+  server.tool(
+    "listSnapshots",
+    "List stored service snapshots, newest first, with per-type definition counts.",
+    {},
+    getToolHints("GET"),
+    async () => {
+      const exec = rf.createToolExecutor<{}>("listSnapshots", DEFAULT_TIMEOUT_MS);
+      return exec({}, async () => {
+        const snapshots = getStore().list();
+        return { snapshots, count: snapshots.length };
+      });
+    },
+  );
+
+  server.tool(
+    "deleteSnapshot",
+    "Delete a stored snapshot. The service itself is not affected.",
+    { snapshotId: z.string().min(1) },
+    getToolHints("DELETE"),
+    async (params: any) => {
+      const exec = rf.createToolExecutor<typeof params>("deleteSnapshot", DEFAULT_TIMEOUT_MS);
+      return exec(params, async (p) => {
+        if (!getStore().delete(p.snapshotId)) throw new Error(`Snapshot '${p.snapshotId}' not found`);
+        return { success: true, message: `Snapshot ${p.snapshotId} deleted` };
+      });
+    },
+  );
+
+  server.tool(
+    "restoreSnapshot",
+    "Recreate the definitions in a snapshot on this service or another endpoint. Redacted credentials must be supplied in 'secrets', keyed exactly as listed in the snapshot's redactions (e.g. 'dataSources/hotels-ds:credentials.connectionString'). Returns a plan first; call again with its planHash to apply. Definitions are applied in dependency order; existing resources not in the snapshot are left alone.",
+    {
+      snapshotId: z.string().min(1),
+      secrets: z.record(z.string()).optional().describe("Values for redacted fields, keyed by redaction path"),
+      targetEndpoint: z.string().url().optional().describe("Restore to another search service (defaults to this one)"),
+      targetApiKey: z.string().optional().describe("Admin key for targetEndpoint (not needed with Entra ID auth)"),
+      include: z
+        .array(z.enum(["synonymMaps", "dataSources", "indexes", "skillsets", "indexers", "knowledgeSources", "aliases", "knowledgeAgents"]))
+        .optional()
+        .describe("Restore only these resource types"),
+      allowMissingSecrets: z.boolean().default(false).describe("Restore even if some redacted values were not supplied (those fields are omitted)"),
+      allowIndexDowntime: z.boolean().default(false),
+      planHash: z.string().optional().describe("planHash of the reviewed restore plan"),
+    },
+    getToolHints("PUT"),
+    async (params: any) => {
+      const exec = rf.createToolExecutor<typeof params>("restoreSnapshot", BULK_INGEST_TIMEOUT_MS);
+      // Keep secrets out of error context
+      const { secrets, targetApiKey, ...safeParams } = params;
+      return exec(
+        safeParams,
+        async (p) => {
+          const snapshot = getStore().get(p.snapshotId);
+          if (!snapshot) throw new Error(`Snapshot '${p.snapshotId}' not found`);
+
+          let client = getClient();
+          if (p.targetEndpoint) {
+            const entra = context.profiles?.getAuthMode() === "entra";
+            if (!targetApiKey && !entra) throw new Error("targetApiKey is required when targetEndpoint is set");
+            client = new AzureSearchClient(
+              p.targetEndpoint,
+              targetApiKey ?? context.profiles!.credentialFor({ name: p.targetEndpoint, endpoint: p.targetEndpoint }),
+            );
+          }
+
+          const { bundle, missing } = resupplySecrets(snapshot, secrets || {});
+          if (p.include) {
+            for (const key of Object.keys(bundle) as Array<keyof typeof bundle>) {
+              if (!p.include.includes(key)) delete bundle[key];
+            }
+          }
+          const relevantMissing = missing.filter((m) => !p.include || p.include.includes(m.split("/")[0]));
+          if (relevantMissing.length > 0 && !p.allowMissingSecrets) {
+            return {
+              applied: false,
+              message: "Supply values for the redacted fields in 'secrets' (or set allowMissingSecrets=true)",
+              missingSecrets: relevantMissing,
+            };
+          }
+
+          const plan = await planResources(client, bundle, { allowIndexDowntime: p.allowIndexDowntime });
+          const view = {
+            snapshotId: p.snapshotId,
+            sourceEndpoint: snapshot.endpoint,
+            targetEndpoint: client.getEndpoint(),
+            plan: plan.text,
+            summary: plan.summary,
+            planHash: plan.planHash,
+            missingSecrets: relevantMissing,
+          };
+
+          if (plan.summary.create + plan.summary.update === 0) {
+            return { applied: false, message: "Target already matches the snapshot", ...view };
+          }
+          if (p.planHash !== plan.planHash) {
+            return { applied: false, message: "Review this restore plan and call again with its planHash to apply it.", ...view };
+          }
+          if (plan.summary.blocked > 0) {
+            throw new Error(`Restore plan has blocked changes:\n${plan.changes.filter((c) => c.blocked).map((c) => `${c.kind} '${c.name}': ${c.blocked}`).join("\n")}`);
+          }
+
+          const results = await applyPlan(client, plan, { allowIndexDowntime: p.allowIndexDowntime });
+          const failed = results.filter((r) => r.status === "failed").length;
+          return { applied: true, success: failed === 0, ...view, results };
+        },
+        { snapshotId: params.snapshotId },
+      );
+    },
+  );
+}
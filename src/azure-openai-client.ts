@@ -1,15 +1,17 @@
 // Azure OpenAI client for intelligent summarization
 import { AZURE_OPENAI_API_VERSION } from "./constants";
 import { log } from "./utils/logging";
+import { toCredential, type CredentialProvider } from "./credentials";
 
 export class AzureOpenAIClient {
   private endpoint: string;
-  private apiKey: string;
+  private credential: CredentialProvider;
   private deploymentName: string;
 
-  constructor(endpoint: string, apiKey: string, deploymentName: string = "gpt-4o-mini") {
+  // An API key string, or a credential provider for the Cognitive Services scope
+  constructor(endpoint: string, credential: string | CredentialProvider, deploymentName: string = "gpt-4o-mini") {
     this.endpoint = endpoint.replace(/\/$/, ''); // Remove trailing slash
-    this.apiKey = apiKey;
+    this.credential = toCredential(credential);
     this.deploymentName = deploymentName;
   }
 
@@ -23,10 +25,19 @@ export class AzureOpenAIClient {
 4. Critical data points or metrics
 Keep the summary structured and easy to scan.`;
 
+    let authHeaders: Record<string, string>;
+    try {
+      authHeaders = await this.credential.getAuthHeaders();
+    } catch (error) {
+      log("error", "Azure OpenAI credential unavailable", { error: String(error) });
+      // Return original content if summarization fails
+      return content;
+    }
+
     const response = await fetch(url, {
       method: 'POST',
       headers: {
-        'api-key': this.apiKey,
+        ...authHeaders,
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
@@ -1,5 +1,7 @@
 // Simple Azure Search REST API client for Cloudflare Workers
 import { AZURE_SEARCH_API_VERSION } from "./constants";
+import { toCredential, type CredentialProvider } from "./credentials";
+import { isMutatingRequest, NOT_MODIFIED, type CacheStats, type ResponseCache } from "./utils/response-cache";
 import type {
   IndexDefinition,
   SynonymMap,
@@ -10,30 +12,77 @@ import type {
   IndexAction,
   OperationResult,
   SearchDocument,
+  SuggestRequestBody,
+  AutocompleteRequestBody,
+  KnowledgeRetrievalRequest,
+  KnowledgeRetrievalResponse,
 } from "./types";
 
 export class AzureSearchClient {
   private endpoint: string;
-  private apiKey: string;
+  private credential: CredentialProvider;
+  private cache: ResponseCache | null;
+  private readFromCache = true;
 
-  constructor(endpoint: string, apiKey: string) {
+  // An API key string, or a credential provider (e.g. Entra ID client credentials).
+  // With a cache, GETs are served from it and writes invalidate what they touch.
+  constructor(endpoint: string, credential: string | CredentialProvider, cache?: ResponseCache) {
     this.endpoint = endpoint.replace(/\/$/, ''); // Remove trailing slash
-    this.apiKey = apiKey;
+    this.credential = toCredential(credential);
+    this.cache = cache ?? null;
+  }
+
+  getEndpoint(): string {
+    return this.endpoint;
+  }
+
+  /** Same service and cache, but reads bypass the cache (writes still invalidate it). For reads whose ETag matters. */
+  fresh(): AzureSearchClient {
+    const client = new AzureSearchClient(this.endpoint, this.credential, this.cache ?? undefined);
+    client.readFromCache = false;
+    return client;
+  }
+
+  getCacheStats(): CacheStats | null {
+    return this.cache?.stats() ?? null;
+  }
+
+  clearCache(): void {
+    this.cache?.clear();
   }
 
   private json(o: unknown) {
     return JSON.stringify(o);
   }
 
+  // Auth headers are added per request in request()
   private headers(extra: Record<string,string> = {}) {
     return {
-      "api-key": this.apiKey,
       "content-type": "application/json",
       ...extra,
     };
   }
 
   private async request(path: string, options: RequestInit = {}): Promise<unknown> {
+    const method = (options.method ?? "GET").toUpperCase();
+    if (!this.cache) return this.send(path, options);
+
+    if (method === "GET") {
+      if (!this.readFromCache) return this.send(path, options);
+      return this.cache.get(path, (ifNoneMatch) =>
+        this.send(path, ifNoneMatch ? { ...options, headers: { ...(options.headers as Record<string, string>), "If-None-Match": ifNoneMatch } } : options),
+      );
+    }
+    if (!isMutatingRequest(method, path)) return this.send(path, options);
+    try {
+      return await this.send(path, options);
+    } finally {
+      // Failed writes (e.g. 412) mean the cached copy may be stale too
+      this.cache.invalidate(path);
+    }
+  }
+
+  private async send(path: string, options: RequestInit = {}): Promise<unknown> {
     const url = `${this.endpoint}${path}${path.includes('?') ? '&' : '?'}api-version=${AZURE_SEARCH_API_VERSION}`;
     // Fix #8: Avoid duplicate headers by merging carefully
     // Build headers defensively – avoid duplicates (case-insensitive) that Cloudflare
@@ -59,14 +108,15 @@ export class AzureSearchClient {
     }
 
     // 2) Ensure required auth / content headers are present exactly once.
-    addHeader("api-key", this.apiKey);
+    for (const [k, v] of Object.entries(await this.credential.getAuthHeaders())) addHeader(k, v);
     addHeader("Content-Type", "application/json");
 
-    const headers: HeadersInit = mergedHeaders;
+    let headers: HeadersInit = mergedHeaders;
     
     // Basic retry-with-backoff for 429/503
     const maxRetries = 3;
     let attempt = 0;
+    let tokenRefreshed = false;
     let response: Response;
 
     while (true) {
@@ -75,6 +125,14 @@ export class AzureSearchClient {
         headers,
       });
 
+      // A bearer token can be revoked or expire early; fetch a fresh one once
+      if (response.status === 401 && this.credential.kind === "entra" && !tokenRefreshed) {
+        tokenRefreshed = true;
+        this.credential.invalidate();
+        headers = { ...mergedHeaders, ...(await this.credential.getAuthHeaders()) };
+        continue;
+      }
+
       if (response.ok || (attempt >= maxRetries) || (response.status !== 429 && response.status !== 503)) {
         break;
       }
@@ -86,6 +144,11 @@ export class AzureSearchClient {
       attempt += 1;
     }
 
+    // Only sent in reply to the cache's If-None-Match revalidation
+    if (response!.status === 304) {
+      return NOT_MODIFIED;
+    }
+
     if (!response!.ok) {
       const errorText = await response!.text();
       // Fix #10: Preserve status code in error for better error handling
@@ -129,7 +192,12 @@ export class AzureSearchClient {
     return this.request(`/indexes('${encodeURIComponent(indexName)}')`);
   }
 
-  async createOrUpdateIndex(indexName: string, indexDefinition: IndexDefinition, etag?: string): Promise<IndexDefinition | unknown> {
+  async createOrUpdateIndex(
+    indexName: string,
+    indexDefinition: IndexDefinition,
+    etag?: string,
+    options: { allowIndexDowntime?: boolean } = {},
+  ): Promise<IndexDefinition | unknown> {
     // Fix #5: Use If-Match header for ETag, not in body
     const headers: HeadersInit = {};
     if (etag) {
@@ -141,7 +209,8 @@ export class AzureSearchClient {
     const cleanDefinition = { ...indexDefinition };
     delete cleanDefinition['@odata.etag'];
     
-    return this.request(`/indexes('${encodeURIComponent(indexName)}')`, {
+    const query = options.allowIndexDowntime ? "?allowIndexDowntime=true" : "";
+    return this.request(`/indexes('${encodeURIComponent(indexName)}')${query}`, {
       method: 'PUT',
       body: JSON.stringify(cleanDefinition),
       headers,
@@ -160,6 +229,15 @@ export class AzureSearchClient {
 
   // Document operations
   async searchDocuments(indexName: string, searchParams: SearchRequestBody): Promise<SearchResults> {
+    // Semantic-only options are rejected by the service unless the semantic ranker is requested
+    if (searchParams.queryType !== "semantic") {
+      const semanticOnly = (
+        ["semanticConfiguration", "captions", "answers", "semanticQuery", "semanticMaxWaitInMilliseconds"] as const
+      ).filter((k) => searchParams[k] !== undefined && searchParams[k] !== "none"); // captions/answers "none" is a no-op
+      if (semanticOnly.length > 0) {
+        throw new Error(`${semanticOnly.join(", ")} require queryType 'semantic'`);
+      }
+    }
     return this.request(`/indexes('${encodeURIComponent(indexName)}')/docs/search`, {
       method: 'POST',
       body: JSON.stringify(searchParams),
@@ -186,11 +264,14 @@ export class AzureSearchClient {
     return this.request(`/datasources('${encodeURIComponent(name)}')`);
   }
 
-  async createOrUpdateDataSource(name: string, dataSourceDefinition: DataSource): Promise<DataSource | unknown> {
+  async createOrUpdateDataSource(name: string, dataSourceDefinition: DataSource, options: { ifMatch?: string; ifNoneMatch?: string } = {}): Promise<DataSource | unknown> {
+    const headers: Record<string, string> = { Prefer: "return=representation" };
+    if (options.ifMatch) headers["If-Match"] = options.ifMatch;
+    if (options.ifNoneMatch) headers["If-None-Match"] = options.ifNoneMatch;
     return this.request(`/datasources('${encodeURIComponent(name)}')`, {
       method: 'PUT',
       body: JSON.stringify(dataSourceDefinition),
-      headers: this.headers({ Prefer: "return=representation" }),
+      headers: this.headers(headers),
     });
   }
 
@@ -210,11 +291,14 @@ export class AzureSearchClient {
     return this.request(`/indexers('${encodeURIComponent(name)}')`);
   }
 
-  async createOrUpdateIndexer(name: string, indexerDefinition: unknown): Promise<unknown> {
+  async createOrUpdateIndexer(name: string, indexerDefinition: unknown, options: { ifMatch?: string; ifNoneMatch?: string } = {}): Promise<unknown> {
+    const headers: Record<string, string> = { Prefer: "return=representation" };
+    if (options.ifMatch) headers["If-Match"] = options.ifMatch;
+    if (options.ifNoneMatch) headers["If-None-Match"] = options.ifNoneMatch;
     return this.request(`/indexers('${encodeURIComponent(name)}')`, {
       method: 'PUT',
       body: JSON.stringify(indexerDefinition),
-      headers: this.headers({ Prefer: "return=representation" }),
+      headers: this.headers(headers),
     });
   }
 
@@ -297,11 +381,14 @@ export class AzureSearchClient {
     return this.request(`/synonymmaps('${encodeURIComponent(name)}')`);
   }
 
-  async createOrUpdateSynonymMap(name: string, synonymMapDefinition: SynonymMap): Promise<SynonymMap | unknown> {
+  async createOrUpdateSynonymMap(name: string, synonymMapDefinition: SynonymMap, options: { ifMatch?: string; ifNoneMatch?: string } = {}): Promise<SynonymMap | unknown> {
+    const headers: Record<string, string> = { Prefer: "return=representation" };
+    if (options.ifMatch) headers["If-Match"] = options.ifMatch;
+    if (options.ifNoneMatch) headers["If-None-Match"] = options.ifNoneMatch;
     return this.request(`/synonymmaps('${encodeURIComponent(name)}')`, {
       method: 'PUT',
       body: JSON.stringify(synonymMapDefinition),
-      headers: this.headers({ Prefer: "return=representation" }),
+      headers: this.headers(headers),
     });
   }
 
@@ -391,14 +478,14 @@ export class AzureSearchClient {
       headers: this.headers(),
     });
   }
-  async suggest(indexName: string, body: Record<string, unknown>): Promise<unknown> {
+  async suggest(indexName: string, body: SuggestRequestBody): Promise<unknown> {
     return this.request(`/indexes('${encodeURIComponent(indexName)}')/docs/suggest`, {
       method: "POST",
       body: this.json(body),
       headers: this.headers(),
     });
   }
-  async autocomplete(indexName: string, body: Record<string, unknown>): Promise<unknown> {
+  async autocomplete(indexName: string, body: AutocompleteRequestBody): Promise<unknown> {
     return this.request(`/indexes('${encodeURIComponent(indexName)}')/docs/autocomplete`, {
       method: "POST",
       body: this.json(body),
@@ -451,6 +538,14 @@ export class AzureSearchClient {
     });
   }
 
+  async retrieveKnowledge(agentName: string, body: KnowledgeRetrievalRequest): Promise<KnowledgeRetrievalResponse> {
+    return this.request(`/agents('${encodeURIComponent(agentName)}')/retrieve`, {
+      method: "POST",
+      headers: this.headers(),
+      body: this.json(body),
+    }) as Promise<KnowledgeRetrievalResponse>;
+  }
+
   // -------- Knowledge Sources (2025-08-01-preview) --------
   async listKnowledgeSources(verbose?: boolean, type?: string): Promise<unknown> {
     const params = new URLSearchParams();
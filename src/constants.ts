@@ -15,6 +15,7 @@ export const DEFAULT_PAGE_SIZE = 50;
 export const DEFAULT_TIMEOUT_MS = 30000; // 30 seconds
 export const INDEXER_POLL_TIMEOUT_MS = 300000; // 5 minutes
 export const DEFAULT_POLL_INTERVAL_MS = 5000; // 5 seconds
+export const BULK_INGEST_TIMEOUT_MS = 300000; // 5 minutes
 
 // Response size limits
 export const MAX_RESPONSE_SIZE_BYTES = 20 * 1024; // 20KB threshold for summarization
@@ -23,9 +24,18 @@ export const DEFAULT_SUMMARY_MAX_TOKENS = 800; // Default max tokens for summari
 
 // Azure Search limits
 export const MAX_DOCUMENTS_PER_BATCH = 1000;
+export const MAX_BATCH_BYTES = 16 * 1024 * 1024; // 16MB request payload limit
 export const MAX_FIELD_NAME_LENGTH = 128;
 export const MAX_INDEX_NAME_LENGTH = 128;
 
+// Bulk ingestion
+export const DEFAULT_BULK_CONCURRENCY = 4;
+export const MAX_BULK_CONCURRENCY = 10;
+export const DEFAULT_BULK_MAX_RETRIES = 3;
+export const BULK_RETRY_BASE_DELAY_MS = 500;
+export const MAX_IMPORT_BYTES = 25 * 1024 * 1024; // 25MB per importDocuments payload
+export const MAX_REPORTED_ROW_ERRORS = 100;
+
 // Default configurations
 export const DEFAULT_OPENAI_DEPLOYMENT = "gpt-4o-mini";
 export const DEFAULT_INDEXER_SCHEDULE = "PT2H"; // 2 hours
@@ -36,6 +46,44 @@ export const DEFAULT_INDEXED_EXTENSIONS = ".md,.ts,.js,.json,.yml,.yaml,.txt";
 export const AZURE_SEARCH_API_VERSION = "2025-08-01-preview";
 export const AZURE_OPENAI_API_VERSION = "2024-08-01-preview";
 
+// Microsoft Entra ID (client credentials)
+export const AZURE_SEARCH_SCOPE = "https://search.azure.com/.default";
+export const COGNITIVE_SERVICES_SCOPE = "https://cognitiveservices.azure.com/.default";
+export const DEFAULT_AUTHORITY_HOST = "https://login.microsoftonline.com";
+export const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000; // Refresh tokens 5 minutes before expiry
+
+// Response cache for GET requests (seconds per resource type; 0 disables caching for that type)
+export const DEFAULT_CACHE_TTLS_SECONDS = {
+  indexes: 60,
+  indexers: 60,
+  datasources: 60,
+  skillsets: 60,
+  synonymmaps: 60,
+  aliases: 60,
+  agents: 60,
+  knowledgesources: 60,
+  indexStats: 30,
+  servicestats: 30,
+  indexerStatus: 5,
+  documents: 0,
+} as const;
+export const MAX_CACHE_ENTRIES = 500;
+
+// Background indexer watches (Durable Object alarms)
+export const DEFAULT_WATCH_POLL_SECONDS = 30;
+export const MIN_WATCH_POLL_SECONDS = 10;
+export const DEFAULT_WATCH_DURATION_MINUTES = 240;
+export const MAX_WATCH_DURATION_MINUTES = 7 * 24 * 60;
+export const MAX_WATCH_POLL_FAILURES = 5; // consecutive status read failures before a watch is dropped
+
+// Indexer trend regressions: the latest period compared with the rest of the window
+export const TREND_REGRESSION_THRESHOLDS = {
+  throughputDropPct: 25, // docs/min fell by at least this much
+  durationIncreasePct: 50, // p95 duration grew by at least this much
+  failureRateIncrease: 0.1, // failed-run share rose by at least 10 points
+  minBaselineRuns: 3,
+} as const;
+
 // Error messages
 export const ERROR_MISSING_ENDPOINT = "AZURE_SEARCH_ENDPOINT is not configured. Please set it as a Worker secret.";
 export const ERROR_MISSING_API_KEY = "AZURE_SEARCH_API_KEY is not configured. Please set it as a Worker secret.";
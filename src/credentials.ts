@@ -0,0 +1,128 @@
+// src/credentials.ts
+/**
+ * Pluggable credentials for Azure REST calls: static API keys or Microsoft Entra ID bearer tokens
+ * obtained with the OAuth 2.0 client-credentials flow. Tokens are cached and refreshed shortly
+ * before they expire; concurrent callers share one in-flight token request.
+ */
+import { DEFAULT_AUTHORITY_HOST, TOKEN_REFRESH_MARGIN_MS } from "./constants";
+import { log } from "./utils/logging";
+
+export interface CredentialProvider {
+  readonly kind: "apiKey" | "entra";
+  /** Headers that authenticate one request. */
+  getAuthHeaders(): Promise<Record<string, string>>;
+  /** Drop any cached token, e.g. after a 401. */
+  invalidate(): void;
+}
+
+export class ApiKeyCredential implements CredentialProvider {
+  readonly kind = "apiKey" as const;
+
+  constructor(private readonly apiKey: string) {}
+
+  async getAuthHeaders() {
+    return { "api-key": this.apiKey };
+  }
+
+  invalidate() {}
+}
+
+export interface ClientCredentialsOptions {
+  tenantId: string;
+  clientId: string;
+  clientSecret: string;
+  scope: string;
+  authorityHost?: string;
+}
+
+export class ClientCredentialsProvider implements CredentialProvider {
+  readonly kind = "entra" as const;
+  private token: { value: string; expiresAt: number } | null = null;
+  private pending: Promise<string> | null = null;
+
+  constructor(private readonly options: ClientCredentialsOptions) {}
+
+  async getAuthHeaders() {
+    return { Authorization: `Bearer ${await this.getToken()}` };
+  }
+
+  invalidate() {
+    this.token = null;
+  }
+
+  async getToken(): Promise<string> {
+    if (this.token && Date.now() < this.token.expiresAt - TOKEN_REFRESH_MARGIN_MS) {
+      return this.token.value;
+    }
+    this.pending ??= this.fetchToken().finally(() => {
+      this.pending = null;
+    });
+    return this.pending;
+  }
+
+  private async fetchToken(): Promise<string> {
+    const { tenantId, clientId, clientSecret, scope } = this.options;
+    const authority = (this.options.authorityHost || DEFAULT_AUTHORITY_HOST).replace(/\/$/, "");
+    const response = await fetch(`${authority}/${encodeURIComponent(tenantId)}/oauth2/v2.0/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "client_credentials",
+        client_id: clientId,
+        client_secret: clientSecret,
+        scope,
+      }).toString(),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      log("error", `Entra ID token request failed (${response.status})`, { scope });
+      const error: any = new Error(`Entra ID token request failed (${response.status}): ${errorText}`);
+      error.statusCode = response.status;
+      throw error;
+    }
+
+    const body = (await response.json()) as { access_token?: string; expires_in?: number | string };
+    if (!body.access_token) throw new Error("Entra ID token response did not include an access_token");
+
+    const expiresInMs = Number(body.expires_in ?? 3600) * 1000;
+    this.token = { value: body.access_token, expiresAt: Date.now() + expiresInMs };
+    return body.access_token;
+  }
+}
+
+export type AuthMode = "apiKey" | "entra";
+
+export interface EntraEnv {
+  AZURE_TENANT_ID?: string;
+  AZURE_CLIENT_ID?: string;
+  AZURE_CLIENT_SECRET?: string;
+  AZURE_AUTHORITY_HOST?: string;
+}
+
+export function parseAuthMode(value: string | undefined, variable: string): AuthMode {
+  if (!value) return "apiKey";
+  const normalized = value.trim().toLowerCase();
+  if (normalized === "apikey" || normalized === "key") return "apiKey";
+  if (normalized === "entra" || normalized === "aad") return "entra";
+  throw new Error(`${variable} must be 'apiKey' or 'entra' (got '${value}')`);
+}
+
+/** Build a client-credentials provider for `scope` from AZURE_TENANT_ID / AZURE_CLIENT_ID / AZURE_CLIENT_SECRET. */
+export function entraCredentialFromEnv(env: EntraEnv, scope: string): ClientCredentialsProvider {
+  const missing = (["AZURE_TENANT_ID", "AZURE_CLIENT_ID", "AZURE_CLIENT_SECRET"] as const).filter((k) => !env[k]);
+  if (missing.length > 0) {
+    throw new Error(`Entra ID authentication requires ${missing.join(", ")}. Please set them as Worker secrets.`);
+  }
+  return new ClientCredentialsProvider({
+    tenantId: env.AZURE_TENANT_ID!,
+    clientId: env.AZURE_CLIENT_ID!,
+    clientSecret: env.AZURE_CLIENT_SECRET!,
+    scope,
+    authorityHost: env.AZURE_AUTHORITY_HOST,
+  });
+}
+
+export function toCredential(credential: string | CredentialProvider): CredentialProvider {
+  return typeof credential === "string" ? new ApiKeyCredential(credential) : credential;
+}
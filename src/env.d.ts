@@ -3,14 +3,40 @@ declare module "cloudflare:workers" {
     // Azure Search Configuration
     AZURE_SEARCH_ENDPOINT: string;
     AZURE_SEARCH_API_KEY: string;
+    AZURE_SEARCH_PROFILES?: string; // JSON map of named service profiles
+    AZURE_SEARCH_DEFAULT_SERVICE?: string;
     
     // Azure OpenAI Configuration (Optional)
     AZURE_OPENAI_ENDPOINT?: string;
     AZURE_OPENAI_API_KEY?: string;
     AZURE_OPENAI_DEPLOYMENT?: string;
+
+    // Microsoft Entra ID client credentials (AZURE_SEARCH_AUTH_MODE / AZURE_OPENAI_AUTH_MODE = "entra")
+    AZURE_SEARCH_AUTH_MODE?: string;
+    AZURE_OPENAI_AUTH_MODE?: string;
+    AZURE_TENANT_ID?: string;
+    AZURE_CLIENT_ID?: string;
+    AZURE_CLIENT_SECRET?: string;
+    AZURE_AUTHORITY_HOST?: string;
+
+    // OAuth 2.1 for /sse and /mcp (MCP_AUTH_MODE = "oauth")
+    MCP_AUTH_MODE?: string;
+    MCP_OAUTH_SIGNING_KEY?: string;
+    MCP_OAUTH_PROVIDER?: string;
+    MCP_OAUTH_ALLOW_LOCAL?: string;
+    LOCAL_AUTH_USER?: string;
+    LOCAL_AUTH_SCOPES?: string;
+
+    // GET response cache: "memory" (default) | "durable" | "off", and per-resource TTLs in seconds (JSON)
+    AZURE_SEARCH_CACHE?: string;
+    AZURE_SEARCH_CACHE_TTLS?: string;
+
+    // Which tools are registered: "readonly" | "standard" (default) | "admin"
+    SERVER_MODE?: string;
     
-    // Durable Object binding
+    // Durable Object bindings
     MCP_OBJECT: DurableObjectNamespace;
+    AUDIT_LOG?: DurableObjectNamespace; // Shared audit log of mutating tool calls
   }
   
   export const env: Env;
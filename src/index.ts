@@ -17,14 +17,58 @@ import { StringBuilder } from "./utils/string-builder";
 import { registerDebugTools } from "./DebugTools";
 import { registerKnowledgeAgentTools } from "./KnowledgeAgentTools";
 import { registerKnowledgeSourceTools } from "./KnowledgeSourceTools";
+import { registerAliasTools } from "./AliasTools";
+import { registerDeploymentTools } from "./DeploymentTools";
+import { registerSnapshotTools } from "./SnapshotTools";
+import { registerServiceProfileTools } from "./ServiceProfileTools";
+import { ServiceProfileRegistry, installServiceArgument, currentService } from "./utils/service-profiles";
+import { entraCredentialFromEnv, parseAuthMode } from "./credentials";
+import { getOAuthServer, isOAuthEnabled, type AuthProps } from "./oauth";
+import { installScopeGuard } from "./utils/tool-scopes";
+import { installServerMode, parseServerMode } from "./utils/server-mode";
+import { registerAuditTools } from "./AuditTools";
+import { AuditLog, AUDIT_LOG_OBJECT_NAME } from "./AuditLogObject";
+import { AuditStore, installAuditTrail, type AuditLogBackend } from "./utils/audit-log";
+import { registerDefinitionHistoryTools } from "./DefinitionHistoryTools";
+import { DefinitionHistory, DEFINITION_HISTORY_OBJECT_NAME } from "./DefinitionHistoryObject";
+import { DefinitionHistoryStore, installDefinitionHistory, type DefinitionHistoryBackend } from "./utils/definition-history";
+import { registerIndexerWatchTools } from "./IndexerWatchTools";
+import { IndexerRunLog, INDEXER_RUN_LOG_OBJECT_NAME } from "./IndexerRunLogObject";
+import { IndexerRunStore, type IndexerRunBackend } from "./utils/indexer-runs";
+import { IndexerWatcher } from "./utils/indexer-watch";
+import { ResourceSubscriptions } from "./utils/resource-subscriptions";
+import { COGNITIVE_SERVICES_SCOPE } from "./constants";
 
 // Type definitions for environment
 interface Env {
-  AZURE_SEARCH_ENDPOINT: string;
-  AZURE_SEARCH_API_KEY: string;
+  AZURE_SEARCH_ENDPOINT?: string;
+  AZURE_SEARCH_API_KEY?: string;
+  AZURE_SEARCH_PROFILES?: string; // JSON: {"<name>": {"endpoint": "...", "apiKey": "..."}}
+  AZURE_SEARCH_DEFAULT_SERVICE?: string;
   AZURE_OPENAI_ENDPOINT?: string;
   AZURE_OPENAI_API_KEY?: string;
   AZURE_OPENAI_DEPLOYMENT?: string;
+  // Entra ID client credentials, used when AZURE_SEARCH_AUTH_MODE / AZURE_OPENAI_AUTH_MODE is "entra"
+  AZURE_SEARCH_AUTH_MODE?: string;
+  AZURE_OPENAI_AUTH_MODE?: string;
+  AZURE_TENANT_ID?: string;
+  AZURE_CLIENT_ID?: string;
+  AZURE_CLIENT_SECRET?: string;
+  AZURE_AUTHORITY_HOST?: string;
+  AZURE_SEARCH_ENTRA_HOSTS?: string; // Comma-separated extra hosts allowed to receive the Entra token
+  // OAuth 2.1 for the MCP endpoints
+  MCP_AUTH_MODE?: string; // "none" (default) | "oauth"
+  MCP_OAUTH_SIGNING_KEY?: string;
+  MCP_OAUTH_PROVIDER?: string; // "local" stub
+  MCP_OAUTH_ALLOW_LOCAL?: string; // "true" enables the local stub
+  LOCAL_AUTH_USER?: string;
+  LOCAL_AUTH_SCOPES?: string;
+  SERVER_MODE?: string; // "readonly" | "standard" (default) | "admin"
+  AZURE_SEARCH_CACHE?: string; // "memory" (default) | "durable" | "off"
+  AZURE_SEARCH_CACHE_TTLS?: string; // JSON: {"<resource type>": <seconds>}
+  AUDIT_LOG?: DurableObjectNamespace; // Shared audit log; falls back to per-session storage when unbound
+  DEFINITION_HISTORY?: DurableObjectNamespace; // Shared definition history; falls back to per-session storage when unbound
+  INDEXER_RUNS?: DurableObjectNamespace; // Shared indexer run log; falls back to per-session storage when unbound
   [key: string]: any;
 }
 
@@ -42,28 +86,88 @@ class AzureSearchMCP extends McpAgent {
     }
   });
 
-  private cachedClient: AzureSearchClient | null = null;
+  private profiles: ServiceProfileRegistry | null = null;
+  private auditLog: AuditLogBackend | null = null;
+  private definitionHistory: DefinitionHistoryBackend | null = null;
+  private indexerWatcher: IndexerWatcher | null = null;
+  private resourceSubscriptions: ResourceSubscriptions | null = null;
+  private indexerRuns: IndexerRunBackend | null = null;
   private cachedOpenAIClient: AzureOpenAIClient | null = null;
   private openAIClientChecked = false;
 
-  private getClient(): AzureSearchClient {
-    if (this.cachedClient) {
-      return this.cachedClient;
-    }
+  private getProfiles(): ServiceProfileRegistry {
+    this.profiles ??= new ServiceProfileRegistry(this.env as Env, (strings, ...values) => this.sql(strings, ...values));
+    return this.profiles;
+  }
 
-    const env = this.env as Env;
-    const endpoint = env.AZURE_SEARCH_ENDPOINT;
-    const apiKey = env.AZURE_SEARCH_API_KEY;
+  // Resolves the profile selected by the running tool's `service` argument, else the default profile
+  private getClient(service?: string): AzureSearchClient {
+    return this.getProfiles().getClient(service ?? currentService());
+  }
+
+  // null when OAuth is disabled (no restriction)
+  private getGrantedScopes(): string[] | null {
+    if (!isOAuthEnabled(this.env as Env)) return null;
+    const scopes = (this.props as AuthProps | undefined)?.scopes;
+    return Array.isArray(scopes) ? scopes : [];
+  }
 
-    if (!endpoint) {
-      throw new Error("AZURE_SEARCH_ENDPOINT is not configured. Please set it as a Worker secret.");
+  private getAuditLog(): AuditLogBackend {
+    if (!this.auditLog) {
+      const namespace = (this.env as Env).AUDIT_LOG;
+      this.auditLog = namespace
+        ? (namespace.get(namespace.idFromName(AUDIT_LOG_OBJECT_NAME)) as unknown as AuditLogBackend)
+        : new AuditStore((strings, ...values) => this.sql(strings, ...values));
     }
-    if (!apiKey) {
-      throw new Error("AZURE_SEARCH_API_KEY is not configured. Please set it as a Worker secret.");
+    return this.auditLog;
+  }
+
+  private getDefinitionHistory(): DefinitionHistoryBackend {
+    if (!this.definitionHistory) {
+      const namespace = (this.env as Env).DEFINITION_HISTORY;
+      this.definitionHistory = namespace
+        ? (namespace.get(namespace.idFromName(DEFINITION_HISTORY_OBJECT_NAME)) as unknown as DefinitionHistoryBackend)
+        : new DefinitionHistoryStore((strings, ...values) => this.sql(strings, ...values));
+    }
+    return this.definitionHistory;
+  }
+
+  private getIndexerRuns(): IndexerRunBackend {
+    if (!this.indexerRuns) {
+      const namespace = (this.env as Env).INDEXER_RUNS;
+      this.indexerRuns = namespace
+        ? (namespace.get(namespace.idFromName(INDEXER_RUN_LOG_OBJECT_NAME)) as unknown as IndexerRunBackend)
+        : new IndexerRunStore((strings, ...values) => this.sql(strings, ...values));
     }
+    return this.indexerRuns;
+  }
+
+  private getResourceSubscriptions(): ResourceSubscriptions {
+    this.resourceSubscriptions ??= new ResourceSubscriptions((strings, ...values) => this.sql(strings, ...values), this.server);
+    return this.resourceSubscriptions;
+  }
+
+  private getIndexerWatcher(): IndexerWatcher {
+    this.indexerWatcher ??= new IndexerWatcher({
+      sql: (strings, ...values) => this.sql(strings, ...values),
+      storage: this.ctx.storage,
+      runs: this.getIndexerRuns(),
+      getClient: (service?: string) => this.getClient(service),
+      subscriptions: this.getResourceSubscriptions(),
+    });
+    return this.indexerWatcher;
+  }
 
-    this.cachedClient = new AzureSearchClient(endpoint, apiKey);
-    return this.cachedClient;
+  // Fired for background indexer watches. Polling needs only SQLite storage and the service profiles, so it
+  // runs without starting the MCP session; updates for a disconnected client are queued until it is back.
+  async alarm() {
+    await this.getIndexerWatcher().onAlarm();
+  }
+
+  async onStart() {
+    await super.onStart();
+    // The client is connected again; send resource updates queued while the session was hibernated
+    await this.getResourceSubscriptions().flushPending();
   }
 
   private getOpenAIClient(): AzureOpenAIClient | null {
@@ -78,12 +182,14 @@ class AzureSearchMCP extends McpAgent {
 
     this.openAIClientChecked = true;
 
-    if (!endpoint || !apiKey) {
+    const useEntra = parseAuthMode(env.AZURE_OPENAI_AUTH_MODE, "AZURE_OPENAI_AUTH_MODE") === "entra";
+    if (!endpoint || (!apiKey && !useEntra)) {
       console.log("Azure OpenAI not configured for summarization");
       return null;
     }
 
-    this.cachedOpenAIClient = new AzureOpenAIClient(endpoint, apiKey, deploymentName);
+    const credential = useEntra ? entraCredentialFromEnv(env, COGNITIVE_SERVICES_SCOPE) : apiKey!;
+    this.cachedOpenAIClient = new AzureOpenAIClient(endpoint, credential, deploymentName);
     return this.cachedOpenAIClient;
   }
 
@@ -97,6 +203,8 @@ class AzureSearchMCP extends McpAgent {
       throw error;
     }
 
+    const serverMode = parseServerMode((this.env as Env).SERVER_MODE);
+
     // Create tool context with client, optional summarizer, and agent for elicitation
     const toolContext: ToolContext = {
       getClient: () => this.getClient(),
@@ -106,9 +214,41 @@ class AzureSearchMCP extends McpAgent {
         if (!openAI) return null;
         return (text: string, maxTokens?: number) => openAI.summarize(text, maxTokens);
       },
-      agent: this // Pass the agent instance for elicitation support
+      agent: this, // Pass the agent instance for elicitation support
+      sql: (strings, ...values) => this.sql(strings, ...values),
+      profiles: this.getProfiles(),
+      serverMode,
+      auditLog: this.getAuditLog(),
+      definitionHistory: this.getDefinitionHistory(),
+      indexerRuns: this.getIndexerRuns(),
+      indexerWatcher: this.getIndexerWatcher(),
+      resourceSubscriptions: this.getResourceSubscriptions(),
     };
 
+    // With OAuth enabled, tools outside the token's scopes are not registered and are rejected if called
+    installScopeGuard(this.server, () => this.getGrantedScopes());
+    // SERVER_MODE: readonly drops mutating tools; standard asks for confirmation before destructive ones
+    installServerMode(this.server, serverMode, this);
+    // Record every mutating tool call; the wrapper enters the call's `service` scope so ETags come from the selected profile
+    installAuditTrail(this.server, {
+      getBackend: () => this.getAuditLog(),
+      getClient: () => this.getClient(),
+      getSessionId: () => this.ctx.id.name ?? this.ctx.id.toString(),
+      getUserId: () => (this.props as AuthProps | undefined)?.userId ?? null,
+      getService: () => currentService() ?? this.getProfiles().getDefaultName() ?? null,
+    });
+
+    // createOrUpdate* tools save the definition they replace, for rollbackDefinition
+    installDefinitionHistory(this.server, {
+      getStore: () => this.getDefinitionHistory(),
+      getClient: () => this.getClient(),
+    });
+
+    registerServiceProfileTools(this.server, toolContext);
+    registerAuditTools(this.server, toolContext);
+    // Every tool registered from here on accepts an optional `service` profile argument
+    installServiceArgument(this.server);
+
     registerIndexTools(this.server, toolContext);
     registerDocumentTools(this.server, toolContext);
     registerDataTools(this.server, toolContext);
@@ -119,9 +259,16 @@ class AzureSearchMCP extends McpAgent {
     registerDebugTools(this.server, toolContext);
     registerKnowledgeAgentTools(this.server, toolContext);
     registerKnowledgeSourceTools(this.server, toolContext);
+    registerAliasTools(this.server, toolContext);
+    registerDeploymentTools(this.server, toolContext);
+    registerSnapshotTools(this.server, toolContext);
+    registerDefinitionHistoryTools(this.server, toolContext);
+    registerIndexerWatchTools(this.server, toolContext);
 
     // Resources
-    registerResources(this.server, () => this.getClient());
+    // resources/subscribe is advertised; watches notify subscribers of indexers/{name}
+    toolContext.resourceSubscriptions?.install();
+    registerResources(this.server, (service?: string) => this.getClient(service));
 
     // ---------------- PROMPTS ----------------
     // Prompts provide guided workflows for complex operations
@@ -294,7 +441,7 @@ Available templates:
       "setup_indexer_pipeline",
       "Set up automated data ingestion from various sources",
       {
-        source_type: z.string().describe("Data source type: blob, cosmos, sql, or table"),
+        source_type: z.string().describe("Data source type: blob, adlsgen2, cosmos, sql, or table"),
         target_index: z.string().describe("Destination index name"),
         schedule: z.string().optional().describe("How often to run (e.g., hourly, daily)?"),
         ai_enrichment: z.string().optional().describe("Need AI enrichment (OCR, key phrases, sentiment)?")
@@ -323,6 +470,14 @@ Available templates:
             pipelineSteps += `- Connection string to storage account\n`;
             pipelineSteps += `- Container name\n`;
             pipelineSteps += `- Optional: folder path, file extensions filter\n`;
+            pipelineSteps += `Use createOrUpdateBlobDataSource\n`;
+            break;
+          case "adls":
+          case "adlsgen2":
+            pipelineSteps += `Configure Azure Data Lake Storage Gen2 connection:\n`;
+            pipelineSteps += `- Connection string to storage account\n`;
+            pipelineSteps += `- File system name and optional folder\n`;
+            pipelineSteps += `Use createOrUpdateAdlsGen2DataSource\n`;
             break;
           case "cosmos":
           case "cosmosdb":
@@ -330,18 +485,21 @@ Available templates:
             pipelineSteps += `- Connection string\n`;
             pipelineSteps += `- Database and collection names\n`;
             pipelineSteps += `- Optional: query for filtering\n`;
+            pipelineSteps += `Use createOrUpdateCosmosDbDataSource (incremental indexing via the _ts high-water mark)\n`;
             break;
           case "sql":
             pipelineSteps += `Configure Azure SQL connection:\n`;
             pipelineSteps += `- Connection string\n`;
             pipelineSteps += `- Table or view name\n`;
             pipelineSteps += `- Optional: change detection policy\n`;
+            pipelineSteps += `Use createOrUpdateSqlDataSource (changeTracking or highWaterMark)\n`;
             break;
           case "table":
             pipelineSteps += `Configure Table Storage connection:\n`;
             pipelineSteps += `- Connection string\n`;
             pipelineSteps += `- Table name\n`;
             pipelineSteps += `- Optional: query filter\n`;
+            pipelineSteps += `Use createOrUpdateTableDataSource\n`;
             break;
         }
 
@@ -1050,11 +1208,11 @@ Available templates:
 
         plan.appendLine(`**Diagnostic Steps:**\n`);
         
-        plan.appendLine(`1. **Check Indexer Status:**`);
+        plan.appendLine(`1. **Group the Errors:**`);
         plan.appendLines(
-          `   - Run: getIndexerStatus(name: "${indexer_name}")`,
-          `   - Review execution history and error messages`,
-          `   - Note specific document IDs with failures\n`
+          `   - Run: analyzeIndexerErrors(name: "${indexer_name}", runs: 5)`,
+          `   - Start with the largest group; each has a likely cause, a fix and sample document keys`,
+          `   - A keyPattern like "<account>/docs/scans/*.pdf" points at one folder or file type\n`
         );
 
         if (error_type === 'skill_execution') {
@@ -1157,55 +1315,54 @@ Available templates:
   }
 }
 
-// Export the class for Durable Object binding
-export { AzureSearchMCP };
+// Export the classes for Durable Object bindings
+export { AzureSearchMCP, AuditLog, DefinitionHistory, IndexerRunLog };
 
 // Expose both transports (SSE + Streamable HTTP)
+const CORS_HEADERS: Record<string, string> = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version",
+  "Access-Control-Expose-Headers": "WWW-Authenticate, Mcp-Session-Id",
+};
+
+function withCors(res: Response): Response {
+  const headers = new Headers(res.headers);
+  for (const [k, v] of Object.entries(CORS_HEADERS)) headers.set(k, v);
+  return new Response(res.body, {
+    status: res.status,
+    statusText: res.statusText,
+    headers,
+  });
+}
+
 export default {
-  fetch(request: Request, envIn: unknown, ctx: ExecutionContext) {
+  async fetch(request: Request, envIn: unknown, ctx: ExecutionContext) {
     const { pathname } = new URL(request.url);
 
     // Handle OPTIONS requests for CORS
     if (request.method === "OPTIONS") {
-      return new Response(null, {
-        status: 204,
-        headers: {
-          "Access-Control-Allow-Origin": "*",
-          "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-          "Access-Control-Allow-Headers": "Content-Type, Authorization",
-        },
-      });
+      return new Response(null, { status: 204, headers: CORS_HEADERS });
+    }
+
+    // OAuth 2.1 layer (MCP_AUTH_MODE=oauth): serve the OAuth endpoints and require a bearer token on /sse and /mcp
+    const oauth = getOAuthServer(envIn as Env, ["/sse", "/mcp"]);
+    if (oauth) {
+      const oauthResponse = await oauth.handle(request);
+      if (oauthResponse) return withCors(oauthResponse);
+      if (oauth.requiresAuth(pathname)) {
+        const auth = await oauth.authenticate(request);
+        if (auth instanceof Response) return withCors(auth);
+        // McpAgent hands ctx.props to the session's Durable Object as this.props
+        (ctx as ExecutionContext & { props?: AuthProps }).props = auth;
+      }
     }
 
     if (pathname.startsWith("/sse")) {
-      const response = AzureSearchMCP.serveSSE("/sse").fetch(request, envIn as any, ctx);
-      // Add CORS headers to SSE response
-      return response.then(res => {
-        const headers = new Headers(res.headers);
-        headers.set("Access-Control-Allow-Origin", "*");
-        headers.set("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-        headers.set("Access-Control-Allow-Headers", "Content-Type, Authorization");
-        return new Response(res.body, {
-          status: res.status,
-          statusText: res.statusText,
-          headers,
-        });
-      });
+      return withCors(await AzureSearchMCP.serveSSE("/sse").fetch(request, envIn as any, ctx));
     }
     if (pathname.startsWith("/mcp")) {
-      const response = AzureSearchMCP.serve("/mcp").fetch(request, envIn as any, ctx);
-      // Add CORS headers to MCP response
-      return response.then(res => {
-        const headers = new Headers(res.headers);
-        headers.set("Access-Control-Allow-Origin", "*");
-        headers.set("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-        headers.set("Access-Control-Allow-Headers", "Content-Type, Authorization");
-        return new Response(res.body, {
-          status: res.status,
-          statusText: res.statusText,
-          headers,
-        });
-      });
+      return withCors(await AzureSearchMCP.serve("/mcp").fetch(request, envIn as any, ctx));
     }
     return new Response("Azure AI Search MCP Server - Use /sse or /mcp endpoints", {
       status: 200,
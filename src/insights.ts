@@ -83,6 +83,14 @@ export function normalizeError(e: any, context?: Record<string, any>): { insight
       recommendation: "Serialize management operations and retry with exponential backoff.",
       extras: { status, code, ...context }
     };
+  } else if (status === 412) {
+    insight = {
+      ok: false,
+      code: "ERR_CONFLICT",
+      message: msg,
+      recommendation: "The resource changed since its ETag was read. Re-read it to get the current @odata.etag, review the change, and retry.",
+      extras: { status, code, ...context }
+    };
   }
 
   // Heuristic refinements with enhanced recommendations
@@ -0,0 +1,375 @@
+// src/oauth.ts
+/**
+ * OAuth 2.1 authorization layer in front of the MCP endpoints (MCP authorization spec):
+ *  - /.well-known/oauth-protected-resource and /.well-known/oauth-authorization-server metadata
+ *  - /register (dynamic client registration, public clients only)
+ *  - /authorize (authorization code with mandatory PKCE S256)
+ *  - /token (authorization_code and refresh_token grants)
+ * Codes, tokens and client IDs are HMAC-signed and self-contained, so no storage binding is needed.
+ * Who the user is and which scopes they may have is decided by an IdentityProvider; LocalIdentityProvider
+ * is a stub that approves every request for tests and local development, and must be enabled explicitly.
+ * Verified tokens become the agent's props ({ userId, clientId, scopes }).
+ */
+import { SEARCH_SCOPES, effectiveScopes, isSearchScope } from "./utils/tool-scopes";
+
+export const ACCESS_TOKEN_TTL_S = 60 * 60; // 1 hour
+export const REFRESH_TOKEN_TTL_S = 30 * 24 * 60 * 60; // 30 days
+// Codes are not tracked server-side; the short lifetime and PKCE binding limit replay
+export const AUTH_CODE_TTL_S = 60;
+
+export interface AuthProps {
+  userId: string;
+  clientId: string;
+  scopes: string[];
+  [key: string]: unknown;
+}
+
+export interface AuthorizationRequest {
+  clientId: string;
+  clientName?: string;
+  redirectUri: string;
+  requestedScopes: string[];
+}
+
+export interface IdentityProvider {
+  /**
+   * Authenticate the user for an authorization request. Return the user and granted scopes, or a
+   * Response (e.g. a login page or upstream redirect) to send instead.
+   */
+  authorize(request: Request, authRequest: AuthorizationRequest): Promise<{ userId: string; scopes: string[] } | Response>;
+}
+
+/** Approves every request as one configured user, capped at the configured scopes. Not for production. */
+export class LocalIdentityProvider implements IdentityProvider {
+  constructor(
+    private readonly userId: string = "local-user",
+    private readonly allowedScopes: string[] = ["search:read"],
+  ) {}
+
+  async authorize(_request: Request, authRequest: AuthorizationRequest) {
+    const allowed = effectiveScopes(this.allowedScopes);
+    const requested = authRequest.requestedScopes.length > 0 ? authRequest.requestedScopes : this.allowedScopes;
+    return { userId: this.userId, scopes: requested.filter((s) => isSearchScope(s) && allowed.has(s)) };
+  }
+}
+
+export interface OAuthEnv {
+  MCP_AUTH_MODE?: string; // "none" (default) | "oauth"
+  MCP_OAUTH_SIGNING_KEY?: string;
+  MCP_OAUTH_PROVIDER?: string; // "local"; required, there is no default
+  MCP_OAUTH_ALLOW_LOCAL?: string; // "true" to allow the local stub (development only)
+  LOCAL_AUTH_USER?: string;
+  LOCAL_AUTH_SCOPES?: string; // space-separated; defaults to search:read
+}
+
+export function isOAuthEnabled(env: OAuthEnv): boolean {
+  return (env.MCP_AUTH_MODE || "none").toLowerCase() === "oauth";
+}
+
+/**
+ * The configured identity provider. Fails closed: a missing provider, or the approve-everything local
+ * stub without MCP_OAUTH_ALLOW_LOCAL=true, is a configuration error rather than an open server.
+ */
+export function identityProviderFromEnv(env: OAuthEnv): IdentityProvider {
+  if (!env.MCP_OAUTH_PROVIDER) {
+    throw new Error("MCP_AUTH_MODE=oauth requires MCP_OAUTH_PROVIDER");
+  }
+  const provider = env.MCP_OAUTH_PROVIDER.toLowerCase();
+  if (provider === "local") {
+    if ((env.MCP_OAUTH_ALLOW_LOCAL || "").toLowerCase() !== "true") {
+      throw new Error("MCP_OAUTH_PROVIDER=local approves every request; set MCP_OAUTH_ALLOW_LOCAL=true to use it for development");
+    }
+    return new LocalIdentityProvider(env.LOCAL_AUTH_USER || "local-user", env.LOCAL_AUTH_SCOPES?.split(/\s+/).filter(Boolean) ?? ["search:read"]);
+  }
+  throw new Error(`Unsupported MCP_OAUTH_PROVIDER '${env.MCP_OAUTH_PROVIDER}'`);
+}
+
+// ---------------- Signed tokens ----------------
+
+type TokenType = "client" | "code" | "access" | "refresh";
+
+const encoder = new TextEncoder();
+
+function base64url(bytes: Uint8Array): string {
+  let bin = "";
+  bytes.forEach((b) => (bin += String.fromCharCode(b)));
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64url(text: string): Uint8Array {
+  const bin = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+async function sha256Base64url(text: string): Promise<string> {
+  return base64url(new Uint8Array(await crypto.subtle.digest("SHA-256", encoder.encode(text))));
+}
+
+export class TokenSigner {
+  private key: Promise<CryptoKey>;
+
+  constructor(secret: string) {
+    if (!secret || secret.length < 32) throw new Error("MCP_OAUTH_SIGNING_KEY must be at least 32 characters");
+    this.key = crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign", "verify"]);
+  }
+
+  async sign(typ: TokenType, claims: Record<string, unknown>, ttlSeconds?: number): Promise<string> {
+    const now = Math.floor(Date.now() / 1000);
+    const payload = { ...claims, typ, iat: now, ...(ttlSeconds ? { exp: now + ttlSeconds } : {}) };
+    const body = base64url(encoder.encode(JSON.stringify(payload)));
+    const sig = new Uint8Array(await crypto.subtle.sign("HMAC", await this.key, encoder.encode(body)));
+    return `${body}.${base64url(sig)}`;
+  }
+
+  /** Returns the claims, or null for a bad signature, wrong type or expired token. */
+  async verify<T extends Record<string, any>>(typ: TokenType, token: string | null | undefined): Promise<T | null> {
+    if (!token) return null;
+    const [body, sig] = token.split(".");
+    if (!body || !sig) return null;
+    try {
+      const ok = await crypto.subtle.verify("HMAC", await this.key, fromBase64url(sig), encoder.encode(body));
+      if (!ok) return null;
+      const claims = JSON.parse(new TextDecoder().decode(fromBase64url(body)));
+      if (claims.typ !== typ) return null;
+      if (typeof claims.exp === "number" && claims.exp < Math.floor(Date.now() / 1000)) return null;
+      return claims as T;
+    } catch {
+      return null;
+    }
+  }
+}
+
+// ---------------- HTTP handlers ----------------
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", "Cache-Control": "no-store", ...headers } });
+
+const oauthError = (error: string, description: string, status = 400) => json({ error, error_description: description }, status);
+
+function isAllowedRedirectUri(uri: string): boolean {
+  try {
+    const u = new URL(uri);
+    if (u.hash) return false;
+    if (u.protocol === "https:") return true;
+    // Loopback redirects for native/CLI clients; custom schemes for desktop apps
+    if (u.protocol === "http:") return u.hostname === "localhost" || u.hostname === "127.0.0.1" || u.hostname === "[::1]";
+    return !["javascript:", "data:", "file:"].includes(u.protocol);
+  } catch {
+    return false;
+  }
+}
+
+export interface OAuthServerOptions {
+  signer: TokenSigner;
+  provider: IdentityProvider;
+  protectedPaths: string[];
+}
+
+export class OAuthServer {
+  constructor(private readonly options: OAuthServerOptions) {}
+
+  private metadataUrl(origin: string) {
+    return `${origin}/.well-known/oauth-protected-resource`;
+  }
+
+  requiresAuth(pathname: string): boolean {
+    return this.options.protectedPaths.some((p) => pathname === p || pathname.startsWith(`${p}/`));
+  }
+
+  /** Handle OAuth endpoints; returns null for other paths. */
+  async handle(request: Request): Promise<Response | null> {
+    const url = new URL(request.url);
+    const origin = url.origin;
+    // Clients may append the resource path, e.g. /.well-known/oauth-protected-resource/mcp
+    const path = url.pathname.replace(/^(\/\.well-known\/oauth-(?:protected-resource|authorization-server))\/.*$/, "$1");
+
+    switch (path) {
+      case "/.well-known/oauth-protected-resource":
+        return json({
+          resource: origin,
+          authorization_servers: [origin],
+          scopes_supported: SEARCH_SCOPES,
+          bearer_methods_supported: ["header"],
+        });
+      case "/.well-known/oauth-authorization-server":
+        return json({
+          issuer: origin,
+          authorization_endpoint: `${origin}/authorize`,
+          token_endpoint: `${origin}/token`,
+          registration_endpoint: `${origin}/register`,
+          scopes_supported: SEARCH_SCOPES,
+          response_types_supported: ["code"],
+          grant_types_supported: ["authorization_code", "refresh_token"],
+          code_challenge_methods_supported: ["S256"],
+          token_endpoint_auth_methods_supported: ["none"],
+        });
+      case "/register":
+        return request.method === "POST" ? this.register(request) : oauthError("invalid_request", "Use POST", 405);
+      case "/authorize":
+        return this.authorize(request, url);
+      case "/token":
+        return request.method === "POST" ? this.token(request) : oauthError("invalid_request", "Use POST", 405);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Verify the bearer token of a protected request. Returns the props to hand to the agent,
+   * or a 401 response carrying the resource metadata location.
+   */
+  async authenticate(request: Request): Promise<AuthProps | Response> {
+    const origin = new URL(request.url).origin;
+    const header = request.headers.get("Authorization") || "";
+    const match = /^Bearer\s+(.+)$/i.exec(header);
+    const challenge = (error?: string) =>
+      new Response(JSON.stringify({ error: error ?? "unauthorized", error_description: "A valid bearer token is required" }), {
+        status: 401,
+        headers: {
+          "Content-Type": "application/json",
+          "WWW-Authenticate": `Bearer resource_metadata="${this.metadataUrl(origin)}"${error ? `, error="${error}"` : ""}`,
+        },
+      });
+
+    if (!match) return challenge();
+    const claims = await this.options.signer.verify<{ sub: string; cid: string; scp: string[] }>("access", match[1]);
+    if (!claims) return challenge("invalid_token");
+    return { userId: claims.sub, clientId: claims.cid, scopes: claims.scp };
+  }
+
+  private async register(request: Request): Promise<Response> {
+    let body: any;
+    try {
+      body = await request.json();
+    } catch {
+      return oauthError("invalid_client_metadata", "Body must be JSON");
+    }
+    const redirectUris: unknown = body?.redirect_uris;
+    if (!Array.isArray(redirectUris) || redirectUris.length === 0 || !redirectUris.every((u) => typeof u === "string" && isAllowedRedirectUri(u))) {
+      return oauthError("invalid_redirect_uri", "redirect_uris must be https, loopback http, or a private-use scheme");
+    }
+    if (body.token_endpoint_auth_method && body.token_endpoint_auth_method !== "none") {
+      return oauthError("invalid_client_metadata", "Only public clients (token_endpoint_auth_method 'none') are supported");
+    }
+
+    const clientName = typeof body.client_name === "string" ? body.client_name.slice(0, 200) : undefined;
+    const clientId = await this.options.signer.sign("client", { ru: redirectUris, cn: clientName });
+    return json(
+      {
+        client_id: clientId,
+        client_id_issued_at: Math.floor(Date.now() / 1000),
+        client_name: clientName,
+        redirect_uris: redirectUris,
+        token_endpoint_auth_method: "none",
+        grant_types: ["authorization_code", "refresh_token"],
+        response_types: ["code"],
+      },
+      201,
+    );
+  }
+
+  private async authorize(request: Request, url: URL): Promise<Response> {
+    const p = url.searchParams;
+    const client = await this.options.signer.verify<{ ru: string[]; cn?: string }>("client", p.get("client_id"));
+    if (!client) return oauthError("invalid_client", "Unknown client_id");
+
+    // Never redirect to an unregistered URI
+    const redirectUri = p.get("redirect_uri") || (client.ru.length === 1 ? client.ru[0] : "");
+    if (!client.ru.includes(redirectUri)) return oauthError("invalid_request", "redirect_uri is not registered for this client");
+
+    const redirectError = (error: string, description: string) => {
+      const target = new URL(redirectUri);
+      target.searchParams.set("error", error);
+      target.searchParams.set("error_description", description);
+      if (p.get("state")) target.searchParams.set("state", p.get("state")!);
+      return Response.redirect(target.toString(), 302);
+    };
+
+    if (p.get("response_type") !== "code") return redirectError("unsupported_response_type", "response_type must be 'code'");
+    if (!p.get("code_challenge") || p.get("code_challenge_method") !== "S256") {
+      return redirectError("invalid_request", "PKCE with code_challenge_method=S256 is required");
+    }
+    const requestedScopes = (p.get("scope") || "").split(/\s+/).filter(Boolean);
+    const unknown = requestedScopes.filter((s) => !isSearchScope(s));
+    if (unknown.length > 0) return redirectError("invalid_scope", `Unknown scope(s): ${unknown.join(", ")}`);
+
+    const result = await this.options.provider.authorize(request, {
+      clientId: p.get("client_id")!,
+      clientName: client.cn,
+      redirectUri,
+      requestedScopes,
+    });
+    if (result instanceof Response) return result;
+    if (result.scopes.length === 0) return redirectError("access_denied", "None of the requested scopes were granted");
+
+    const code = await this.options.signer.sign(
+      "code",
+      { sub: result.userId, cid: p.get("client_id"), ru: redirectUri, scp: result.scopes, cc: p.get("code_challenge") },
+      AUTH_CODE_TTL_S,
+    );
+    const target = new URL(redirectUri);
+    target.searchParams.set("code", code);
+    if (p.get("state")) target.searchParams.set("state", p.get("state")!);
+    return Response.redirect(target.toString(), 302);
+  }
+
+  private async token(request: Request): Promise<Response> {
+    const form = new URLSearchParams(await request.text());
+    const clientId = form.get("client_id");
+    if (!(await this.options.signer.verify("client", clientId))) return oauthError("invalid_client", "Unknown client_id", 401);
+
+    let grant: { sub: string; scp: string[] };
+    switch (form.get("grant_type")) {
+      case "authorization_code": {
+        const code = await this.options.signer.verify<{ sub: string; cid: string; ru: string; scp: string[]; cc: string }>("code", form.get("code"));
+        if (!code || code.cid !== clientId) return oauthError("invalid_grant", "Authorization code is invalid or expired");
+        if (form.get("redirect_uri") && form.get("redirect_uri") !== code.ru) return oauthError("invalid_grant", "redirect_uri does not match");
+        const verifier = form.get("code_verifier");
+        if (!verifier || (await sha256Base64url(verifier)) !== code.cc) return oauthError("invalid_grant", "code_verifier does not match");
+        grant = { sub: code.sub, scp: code.scp };
+        break;
+      }
+      case "refresh_token": {
+        const refresh = await this.options.signer.verify<{ sub: string; cid: string; scp: string[] }>("refresh", form.get("refresh_token"));
+        if (!refresh || refresh.cid !== clientId) return oauthError("invalid_grant", "Refresh token is invalid or expired");
+        // A refresh may narrow, never widen, the original grant
+        const requested = (form.get("scope") || "").split(/\s+/).filter(Boolean);
+        const scp = requested.length > 0 ? requested.filter((s) => refresh.scp.includes(s)) : refresh.scp;
+        if (scp.length === 0) return oauthError("invalid_scope", "Requested scopes exceed the original grant");
+        grant = { sub: refresh.sub, scp };
+        break;
+      }
+      default:
+        return oauthError("unsupported_grant_type", "Supported grants: authorization_code, refresh_token");
+    }
+
+    const accessToken = await this.options.signer.sign("access", { sub: grant.sub, cid: clientId, scp: grant.scp }, ACCESS_TOKEN_TTL_S);
+    const refreshToken = await this.options.signer.sign("refresh", { sub: grant.sub, cid: clientId, scp: grant.scp }, REFRESH_TOKEN_TTL_S);
+    return json({
+      access_token: accessToken,
+      token_type: "Bearer",
+      expires_in: ACCESS_TOKEN_TTL_S,
+      refresh_token: refreshToken,
+      scope: grant.scp.join(" "),
+    });
+  }
+}
+
+let cached: { key: string; server: OAuthServer } | null = null;
+
+/** Build (once per isolate) the OAuth server from env; null when MCP_AUTH_MODE is not "oauth". */
+export function getOAuthServer(env: OAuthEnv, protectedPaths: string[]): OAuthServer | null {
+  if (!isOAuthEnabled(env)) return null;
+  const key = `${env.MCP_OAUTH_SIGNING_KEY}|${env.MCP_OAUTH_PROVIDER}|${env.MCP_OAUTH_ALLOW_LOCAL}|${env.LOCAL_AUTH_USER}|${env.LOCAL_AUTH_SCOPES}`;
+  if (cached?.key !== key) {
+    cached = {
+      key,
+      server: new OAuthServer({
+        signer: new TokenSigner(env.MCP_OAUTH_SIGNING_KEY || ""),
+        provider: identityProviderFromEnv(env),
+        protectedPaths,
+      }),
+    };
+  }
+  return cached.server;
+}
@@ -1,4 +1,5 @@
 // src/resources.ts
+import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { withTimeout } from "./utils/timeout";
 import { DEFAULT_TIMEOUT_MS } from "./constants";
 
@@ -35,163 +36,174 @@ function createResourceResponse(
  * Register MCP resources for Azure Search service
  * Provides read-only access to index definitions, stats, and service information
  */
-export function registerResources(server: any, getClient: () => any) {
+export function registerResources(server: any, getClient: (service?: string) => any) {
   // ---------------- STATIC RESOURCES ----------------
   
   // Service-level statistics and quotas
-  server.resource(
-    "servicestats",
-    "Service-level statistics and quotas",
-    async () => {
-      try {
-        const c = getClient();
-        const stats = await c.getServiceStatistics();
-        
-        return createResourceResponse(
-          "servicestats",
-          "Service Statistics",
-          "📊 Azure Search Service Statistics",
-          "Current usage, quotas, and service limits",
-          stats,
-          {
-            audience: ["assistant"],
-            priority: 0.6,
-            lastModified: new Date().toISOString()
-          }
-        );
-      } catch (error) {
-        return createResourceResponse(
-          "servicestats",
-          "Service Statistics",
-          "📊 Service Statistics (Error)",
-          "Failed to retrieve service statistics",
-          { error: String(error) },
-          { audience: ["assistant"], priority: 0.3 }
-        );
-      }
+  const readServiceStats = async (service?: string) => {
+    const uri = service ? `services/${service}/servicestats` : "servicestats";
+    try {
+      const c = getClient(service);
+      const stats = await c.getServiceStatistics();
+      
+      return createResourceResponse(
+        uri,
+        "Service Statistics",
+        "📊 Azure Search Service Statistics",
+        "Current usage, quotas, and service limits",
+        stats,
+        {
+          audience: ["assistant"],
+          priority: 0.6,
+          lastModified: new Date().toISOString()
+        }
+      );
+    } catch (error) {
+      return createResourceResponse(
+        uri,
+        "Service Statistics",
+        "📊 Service Statistics (Error)",
+        "Failed to retrieve service statistics",
+        { error: String(error) },
+        { audience: ["assistant"], priority: 0.3 }
+      );
     }
-  );
+  };
 
   // List of all indexes (overview)
-  server.resource(
-    "indexes",
-    "List of all search indexes",
-    async () => {
+  const readIndexesOverview = async (service?: string) => {
+    const uri = service ? `services/${service}/indexes` : "indexes";
+    try {
+      const c = getClient(service);
+      // Use lightweight $select to reduce payload size
+      const indexes = await c.listIndexesSelected(
+        "name,fields,semantic,vectorSearch,suggesters,scoringProfiles"
+      );
+
+      // Try aggregate stats endpoint first
+      let indexesWithStats: any[];
       try {
-        const c = getClient();
-        // Use lightweight $select to reduce payload size
-        const indexes = await c.listIndexesSelected(
-          "name,fields,semantic,vectorSearch,suggesters,scoringProfiles"
+        const summary: any = await withTimeout(
+          c.getIndexStatsSummary(),
+          DEFAULT_TIMEOUT_MS,
+          "getIndexStatsSummary"
         );
+        const byName = new Map<string, any>();
+        const items = Array.isArray(summary?.value) ? summary.value : [];
+        for (const s of items) {
+          if (s?.name) byName.set(s.name, s);
+        }
 
-        // Try aggregate stats endpoint first
-        let indexesWithStats: any[];
-        try {
-          const summary: any = await withTimeout(
-            c.getIndexStatsSummary(),
-            DEFAULT_TIMEOUT_MS,
-            "getIndexStatsSummary"
-          );
-          const byName = new Map<string, any>();
-          const items = Array.isArray(summary?.value) ? summary.value : [];
-          for (const s of items) {
-            if (s?.name) byName.set(s.name, s);
-          }
-
-          indexesWithStats = indexes.map((idx: any) => {
-            const s = byName.get(idx.name);
-            const base: any = {
-              name: idx.name,
-              fields: idx.fields?.length || 0,
-              features: {
-                semantic: !!idx.semantic,
-                vectorSearch: !!idx.vectorSearch,
-                suggesters: idx.suggesters?.length > 0,
-                scoringProfiles: idx.scoringProfiles?.length > 0,
-              },
-            };
-            if (s) {
-              base.documentCount = s.documentCount || 0;
-              base.storageSize = s.storageSize || 0;
-              if (typeof s.vectorIndexSize === "number") {
-                base.vectorIndexSize = s.vectorIndexSize;
-              }
+        indexesWithStats = indexes.map((idx: any) => {
+          const s = byName.get(idx.name);
+          const base: any = {
+            name: idx.name,
+            fields: idx.fields?.length || 0,
+            features: {
+              semantic: !!idx.semantic,
+              vectorSearch: !!idx.vectorSearch,
+              suggesters: idx.suggesters?.length > 0,
+              scoringProfiles: idx.scoringProfiles?.length > 0,
+            },
+          };
+          if (s) {
+            base.documentCount = s.documentCount || 0;
+            base.storageSize = s.storageSize || 0;
+            if (typeof s.vectorIndexSize === "number") {
+              base.vectorIndexSize = s.vectorIndexSize;
             }
-            return base;
-          });
-        } catch {
-          // Fallback: per-index stats with modest concurrency and timeouts
-          const concurrency = 5;
-          const out: any[] = [];
-          for (let i = 0; i < indexes.length; i += concurrency) {
-            const slice = indexes.slice(i, i + concurrency);
-            const chunk = await Promise.all(
-              slice.map(async (idx: any) => {
-                try {
-                  const stats: any = await withTimeout(
-                    c.getIndexStats(idx.name),
-                    DEFAULT_TIMEOUT_MS,
-                    `getIndexStats:${idx.name}`
-                  );
-                  const result: any = {
-                    name: idx.name,
-                    fields: idx.fields?.length || 0,
-                    documentCount: stats?.documentCount || 0,
-                    storageSize: stats?.storageSize || 0,
-                    features: {
-                      semantic: !!idx.semantic,
-                      vectorSearch: !!idx.vectorSearch,
-                      suggesters: idx.suggesters?.length > 0,
-                      scoringProfiles: idx.scoringProfiles?.length > 0,
-                    },
-                  };
-                  if (typeof stats?.vectorIndexSize === "number") {
-                    result.vectorIndexSize = stats.vectorIndexSize;
-                  }
-                  return result;
-                } catch {
-                  return {
-                    name: idx.name,
-                    fields: idx.fields?.length || 0,
-                    features: {
-                      semantic: !!idx.semantic,
-                      vectorSearch: !!idx.vectorSearch,
-                      suggesters: idx.suggesters?.length > 0,
-                      scoringProfiles: idx.scoringProfiles?.length > 0,
-                    },
-                    error: "Could not retrieve stats",
-                  };
-                }
-              })
-            );
-            out.push(...chunk);
           }
-          indexesWithStats = out;
+          return base;
+        });
+      } catch {
+        // Fallback: per-index stats with modest concurrency and timeouts
+        const concurrency = 5;
+        const out: any[] = [];
+        for (let i = 0; i < indexes.length; i += concurrency) {
+          const slice = indexes.slice(i, i + concurrency);
+          const chunk = await Promise.all(
+            slice.map(async (idx: any) => {
+              try {
+                const stats: any = await withTimeout(
+                  c.getIndexStats(idx.name),
+                  DEFAULT_TIMEOUT_MS,
+                  `getIndexStats:${idx.name}`
+                );
+                const result: any = {
+                  name: idx.name,
+                  fields: idx.fields?.length || 0,
+                  documentCount: stats?.documentCount || 0,
+                  storageSize: stats?.storageSize || 0,
+                  features: {
+                    semantic: !!idx.semantic,
+                    vectorSearch: !!idx.vectorSearch,
+                    suggesters: idx.suggesters?.length > 0,
+                    scoringProfiles: idx.scoringProfiles?.length > 0,
+                  },
+                };
+                if (typeof stats?.vectorIndexSize === "number") {
+                  result.vectorIndexSize = stats.vectorIndexSize;
+                }
+                return result;
+              } catch {
+                return {
+                  name: idx.name,
+                  fields: idx.fields?.length || 0,
+                  features: {
+                    semantic: !!idx.semantic,
+                    vectorSearch: !!idx.vectorSearch,
+                    suggesters: idx.suggesters?.length > 0,
+                    scoringProfiles: idx.scoringProfiles?.length > 0,
+                  },
+                  error: "Could not retrieve stats",
+                };
+              }
+            })
+          );
+          out.push(...chunk);
         }
-        
-        return createResourceResponse(
-          "indexes",
-          "All Indexes",
-          "🔍 Search Indexes Overview",
-          `${indexes.length} index${indexes.length !== 1 ? 'es' : ''} configured`,
-          { indexes: indexesWithStats, count: indexes.length },
-          {
-            audience: ["user", "assistant"],
-            priority: 0.9,
-            lastModified: new Date().toISOString()
-          }
-        );
-      } catch (error) {
-        return createResourceResponse(
-          "indexes",
-          "All Indexes",
-          "🔍 Indexes (Error)",
-          "Failed to retrieve index list",
-          { error: String(error) },
-          { audience: ["assistant"], priority: 0.3 }
-        );
+        indexesWithStats = out;
       }
+      
+      return createResourceResponse(
+        uri,
+        "All Indexes",
+        "🔍 Search Indexes Overview",
+        `${indexes.length} index${indexes.length !== 1 ? 'es' : ''} configured`,
+        { indexes: indexesWithStats, count: indexes.length },
+        {
+          audience: ["user", "assistant"],
+          priority: 0.9,
+          lastModified: new Date().toISOString()
+        }
+      );
+    } catch (error) {
+      return createResourceResponse(
+        uri,
+        "All Indexes",
+        "🔍 Indexes (Error)",
+        "Failed to retrieve index list",
+        { error: String(error) },
+        { audience: ["assistant"], priority: 0.3 }
+      );
     }
+  };
+
+  server.resource("servicestats", "Service-level statistics and quotas", async () => readServiceStats());
+  server.resource("indexes", "List of all search indexes", async () => readIndexesOverview());
+
+  // Per-service variants for named connection profiles (see listServiceProfiles)
+  server.resource(
+    "services/{service}/servicestats",
+    new ResourceTemplate("services/{service}/servicestats", { list: undefined }),
+    { description: "Service-level statistics and quotas for a named service profile" },
+    async (_uri: URL, { service }: any) => readServiceStats(String(service))
+  );
+  server.resource(
+    "services/{service}/indexes",
+    new ResourceTemplate("services/{service}/indexes", { list: undefined }),
+    { description: "List of all search indexes on a named service profile" },
+    async (_uri: URL, { service }: any) => readIndexesOverview(String(service))
   );
 
   // List of all data sources
@@ -337,6 +349,46 @@ export function registerResources(server: any, getClient: () => any) {
     }
   );
 
+  // List of all index aliases
+  server.resource(
+    "aliases",
+    "List of all index aliases and the index each one points to",
+    async () => {
+      try {
+        const c = getClient();
+        const aliases = await c.listAliases();
+
+        const aliasInfo = aliases.map((a: any) => ({
+          name: a.name,
+          indexes: a.indexes || [],
+          etag: a["@odata.etag"]
+        }));
+
+        return createResourceResponse(
+          "aliases",
+          "Index Aliases",
+          "🔀 Index Aliases",
+          `${aliases.length} alias${aliases.length !== 1 ? 'es' : ''} configured`,
+          { aliases: aliasInfo, count: aliases.length },
+          {
+            audience: ["assistant"],
+            priority: 0.5,
+            lastModified: new Date().toISOString()
+          }
+        );
+      } catch (error) {
+        return createResourceResponse(
+          "aliases",
+          "Index Aliases",
+          "🔀 Index Aliases (Error)",
+          "Failed to retrieve aliases",
+          { error: String(error) },
+          { audience: ["assistant"], priority: 0.3 }
+        );
+      }
+    }
+  );
+
   // List of all skillsets - AI enrichment pipelines
   server.resource(
     "skillsets",
@@ -696,8 +748,9 @@ export function registerResources(server: any, getClient: () => any) {
   // Individual indexer status with history
   server.resource(
     "indexers/{name}",
-    "Indexer configuration and execution history",
-    async ({ name }: any) => {
+    new ResourceTemplate("indexers/{name}", { list: undefined }),
+    { description: "Indexer configuration and execution history" },
+    async (_uri: URL, { name }: any) => {
       try {
         const c = getClient();
         const [indexer, status] = await Promise.all([
@@ -72,6 +72,47 @@ export const SearchParamsSchema = z.object({
   includeTotalCount: z.boolean().default(true)
 });
 
+// Vector query (hybrid search). "vector" sends a precomputed embedding; "text" relies on
+// the field's vectorizer to embed the query server-side.
+const VectorQueryBaseSchema = z.object({
+  k: z.number().int().positive().max(1000).optional().describe("Number of nearest neighbours to return"),
+  fields: z.string().min(1).describe("Comma-separated vector field names (e.g., 'contentVector')"),
+  exhaustive: z.boolean().optional().describe("Bypass HNSW and run exhaustive KNN over all vectors"),
+  weight: z.number().positive().optional().describe("Relative weight of this query in RRF hybrid scoring"),
+  oversampling: z.number().min(1).optional().describe("Oversampling factor for compressed vector fields"),
+});
+
+export const VectorQuerySchema = z.discriminatedUnion("kind", [
+  VectorQueryBaseSchema.extend({
+    kind: z.literal("vector"),
+    vector: z.array(z.number()).min(1).describe("Query embedding"),
+  }),
+  VectorQueryBaseSchema.extend({
+    kind: z.literal("text"),
+    text: z.string().min(1).describe("Query text to vectorize with the field's vectorizer"),
+  }),
+]);
+
+export const VectorFilterModeSchema = z.enum(["preFilter", "postFilter", "strictPostFilter"]);
+
+export const QueryTypeSchema = z.enum(["simple", "full", "semantic"]);
+
+// Facet request. Serialized to Azure's "field,count:N,sort:..." expression syntax.
+export const FacetSpecSchema = z.object({
+  field: z.string().min(1).describe("Facetable field name (use '/' for sub-fields, e.g. 'address/city')"),
+  count: z.number().int().positive().max(1000).optional().describe("Maximum number of value buckets (default 10)"),
+  sort: z.enum(["count", "-count", "value", "-value"]).optional().describe("Bucket ordering for value facets"),
+  interval: z
+    .union([z.number().positive(), z.enum(["minute", "hour", "day", "week", "month", "quarter", "year"])])
+    .optional()
+    .describe("Fixed-size buckets: a number for numeric fields, a calendar unit for dates"),
+  values: z
+    .array(z.union([z.number(), z.string()]))
+    .min(1)
+    .optional()
+    .describe("Range boundaries, e.g. [10, 50, 100] yields <10, 10-50, 50-100, >=100"),
+});
+
 // Pagination parameters
 export const PaginationSchema = z.object({
   pageSize: z.number()
@@ -186,7 +227,7 @@ export const SynonymMapSchema = z.object({
 // Data source connection
 export const DataSourceSchema = z.object({
   name: z.string().min(1),
-  type: z.enum(["azureblob", "azuresql", "cosmosdb", "azuretable"]),
+  type: z.enum(["azureblob", "adlsgen2", "azuresql", "cosmosdb", "azuretable"]),
   credentials: z.object({
     connectionString: z.string().min(1)
   }),
@@ -219,6 +260,11 @@ export const IndexerStatusSchema = z.object({
 // Response schemas
 export const SearchResultsSchema = z.object({
   value: z.array(z.any()),
+  "@search.coverage": z.number().optional(),
+  "@search.answers": z.array(z.any()).optional(),
+  "@search.facets": z.record(z.array(z.any())).optional(),
+  "@search.semanticPartialResponseReason": z.string().optional(),
+  "@search.semanticPartialResponseType": z.string().optional(),
   "@odata.count": z.number().optional(),
   "@search.nextPageParameters": z.any().optional(),
 });
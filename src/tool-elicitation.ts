@@ -199,6 +199,31 @@ export class ToolElicitationBuilder {
     };
   }
 
+  // Generic confirmation for destructive tools in SERVER_MODE=standard
+  static destructiveToolElicitation(toolName: string, target?: string): ElicitationRequest {
+    return {
+      message: `⚠️ WARNING: '${toolName}'${target ? ` on '${target}'` : ''} is destructive and cannot be undone. Please confirm.`,
+      requestedSchema: {
+        type: "object",
+        properties: {
+          confirmation: {
+            type: "string",
+            title: "Confirmation",
+            description: "Type 'CONFIRM' to proceed",
+            enum: ["CONFIRM"]
+          },
+          understood: {
+            type: "boolean",
+            title: "Acknowledgment",
+            description: "I understand this action cannot be undone",
+            default: false
+          }
+        },
+        required: ["confirmation", "understood"]
+      }
+    };
+  }
+
   static searchDocumentsElicitation(): ElicitationRequest {
     return {
       message: "Configure your document search parameters",
@@ -1,5 +1,12 @@
 // src/types.ts
 import type { AzureSearchClient } from "./azure-search-client";
+import type { ServiceProfileRegistry } from "./utils/service-profiles";
+import type { ServerMode } from "./utils/server-mode";
+import type { AuditLogBackend } from "./utils/audit-log";
+import type { DefinitionHistoryBackend } from "./utils/definition-history";
+import type { IndexerRunBackend } from "./utils/indexer-runs";
+import type { IndexerWatcher } from "./utils/indexer-watch";
+import type { ResourceSubscriptions } from "./utils/resource-subscriptions";
  // Local Summarizer type to avoid cross-module drift
  export type Summarizer = (text: string, maxTokens?: number) => Promise<string>;
 import { z } from "zod";
@@ -15,6 +22,10 @@ import {
   OperationResultSchema,
   PaginationSchema,
   IndexerStatusSchema,
+  VectorQuerySchema,
+  VectorFilterModeSchema,
+  QueryTypeSchema,
+  FacetSpecSchema,
 } from "./schemas";
 
 export type GetClient = () => AzureSearchClient;
@@ -28,10 +39,24 @@ export interface ElicitationCapable {
   }) => Promise<{ action: string; content?: any }>;
 }
 
+// Tagged-template SQL over the Durable Object's SQLite storage (McpAgent.sql)
+export type SqlExecutor = <T = Record<string, string | number | boolean | null>>(
+  strings: TemplateStringsArray,
+  ...values: (string | number | boolean | null)[]
+) => T[];
+
 export interface ToolContext {
   getClient: GetClient;
   getSummarizer?: GetSummarizer;
   agent?: ElicitationCapable; // Reference to the McpAgent instance for elicitation support
+  sql?: SqlExecutor; // Durable Object SQLite storage, when running inside the agent
+  profiles?: ServiceProfileRegistry; // Named connection profiles; getClient() resolves the profile selected by `service`
+  serverMode?: ServerMode; // SERVER_MODE; "standard" requires confirmation for destructive tools
+  auditLog?: AuditLogBackend; // Shared AuditLog Durable Object, or this session's SQLite storage
+  definitionHistory?: DefinitionHistoryBackend; // Shared DefinitionHistory Durable Object, or this session's SQLite storage
+  indexerRuns?: IndexerRunBackend; // Shared IndexerRunLog Durable Object, or this session's SQLite storage
+  indexerWatcher?: IndexerWatcher; // Background indexer watches polled on the Durable Object alarm
+  resourceSubscriptions?: ResourceSubscriptions; // resources/subscribe state for this session
 }
 
 // Zod-inferred types for stronger safety across modules
@@ -46,16 +71,88 @@ export type DocumentBatch = z.infer<typeof DocumentBatchSchema>;
 export type OperationResult = z.infer<typeof OperationResultSchema>;
 export type PaginationParams = z.infer<typeof PaginationSchema>;
 export type IndexerStatus = z.infer<typeof IndexerStatusSchema>;
+export type VectorQuery = z.infer<typeof VectorQuerySchema>;
+export type VectorFilterMode = z.infer<typeof VectorFilterModeSchema>;
+export type QueryType = z.infer<typeof QueryTypeSchema>;
+export type FacetSpec = z.infer<typeof FacetSpecSchema>;
 
 // Narrowed request/response shapes used by clients
 export interface SearchRequestBody {
-  search: string;
+  // Optional for pure vector queries; keyword/hybrid queries default to "*"
+  search?: string;
   top?: number;
   skip?: number;
   select?: string;
   filter?: string;
   orderby?: string;
   count?: boolean;
+  facets?: string[];
+  vectorQueries?: VectorQuery[];
+  vectorFilterMode?: VectorFilterMode;
+  queryType?: QueryType;
+  // Semantic ranking (queryType: "semantic")
+  semanticConfiguration?: string;
+  captions?: string; // e.g. "extractive|highlight-true"
+  answers?: string; // e.g. "extractive|count-3"
+  semanticQuery?: string;
+  semanticMaxWaitInMilliseconds?: number;
+}
+
+interface SuggesterRequestBase {
+  search: string;
+  suggesterName: string;
+  fuzzy?: boolean;
+  highlightPreTag?: string;
+  highlightPostTag?: string;
+  searchFields?: string;
+  minimumCoverage?: number;
+  filter?: string;
+  top?: number;
+}
+
+export interface SuggestRequestBody extends SuggesterRequestBase {
+  select?: string;
+  orderby?: string;
+}
+
+export type AutocompleteMode = "oneTerm" | "twoTerms" | "oneTermWithContext";
+
+export interface AutocompleteRequestBody extends SuggesterRequestBase {
+  autocompleteMode?: AutocompleteMode;
+}
+
+// Agentic retrieval (POST /agents('{name}')/retrieve)
+export type KnowledgeAgentMessageContent =
+  | { type: "text"; text: string }
+  | { type: "image"; image: { url: string } };
+
+export interface KnowledgeAgentMessage {
+  role: "user" | "assistant" | "system";
+  content: KnowledgeAgentMessageContent[];
+}
+
+export interface KnowledgeSourceParams {
+  knowledgeSourceName: string;
+  kind: string; // e.g. "searchIndex", "azureBlob"
+  filterAddOn?: string;
+  includeReferences?: boolean;
+  includeReferenceSourceData?: boolean;
+  alwaysQuerySource?: boolean;
+  rerankerThreshold?: number;
+}
+
+export type KnowledgeAgentOutputModality = "answerSynthesis" | "extractiveData";
+
+export interface KnowledgeRetrievalRequest {
+  messages: KnowledgeAgentMessage[];
+  knowledgeSourceParams?: KnowledgeSourceParams[];
+  outputConfiguration?: { modality?: KnowledgeAgentOutputModality };
+}
+
+export interface KnowledgeRetrievalResponse {
+  response?: KnowledgeAgentMessage[];
+  activity?: Array<Record<string, unknown>>;
+  references?: Array<Record<string, unknown>>;
 }
 
 export type SearchDocument = Record<string, unknown>;
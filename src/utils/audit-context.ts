@@ -0,0 +1,29 @@
+// src/utils/audit-context.ts
+/**
+ * Per-call audit scope. The audit wrapper opens a scope around each mutating tool call;
+ * ResponseFormatter reports the call's outcome into it. Kept free of imports so the formatter
+ * can depend on it without cycles.
+ */
+import { AsyncLocalStorage } from "node:async_hooks";
+
+export interface AuditOutcome {
+  code: string; // InsightCode, or "OK"
+  message?: string;
+}
+
+export interface AuditScope {
+  tool: string;
+  outcome?: AuditOutcome;
+}
+
+const auditScope = new AsyncLocalStorage<AuditScope>();
+
+export function runInAuditScope<T>(scope: AuditScope, fn: () => T): T {
+  return auditScope.run(scope, fn);
+}
+
+/** Record the outcome of the current tool call. The last report wins, so an outer executor overrides nested ones. */
+export function reportToolOutcome(outcome: AuditOutcome) {
+  const scope = auditScope.getStore();
+  if (scope) scope.outcome = outcome;
+}
@@ -0,0 +1,301 @@
+// src/utils/audit-log.ts
+/**
+ * Audit trail of mutating tool calls: who called which tool with what (sanitized) arguments,
+ * the outcome InsightCode, the target's ETag before and after, and how long it took.
+ * Records are written to the shared AuditLog Durable Object (all sessions), or to the session's
+ * own SQLite storage when that binding is not configured.
+ */
+import type { AzureSearchClient } from "../azure-search-client";
+import type { SqlExecutor } from "../types";
+import { runInAuditScope, type AuditScope } from "./audit-context";
+import { extractEtag } from "./verify";
+import { withTimeout } from "./timeout";
+import { currentService, runWithService } from "./service-profiles";
+
+export const AUDIT_ETAG_TIMEOUT_MS = 5000;
+export const MAX_AUDIT_ARGS_CHARS = 4000;
+export const DEFAULT_AUDIT_QUERY_LIMIT = 50;
+export const MAX_AUDIT_QUERY_LIMIT = 500;
+
+export interface AuditRecord {
+  id: string;
+  timestamp: string;
+  sessionId: string;
+  userId: string | null;
+  service: string | null;
+  tool: string;
+  objectKind: string | null;
+  objectName: string | null;
+  args: string; // sanitized JSON
+  outcome: "success" | "error";
+  code: string; // InsightCode, or "OK"
+  message: string | null;
+  etagBefore: string | null;
+  etagAfter: string | null;
+  durationMs: number;
+}
+
+export interface AuditQuery {
+  since?: string;
+  until?: string;
+  tool?: string;
+  objectName?: string;
+  outcome?: "success" | "error";
+  sessionId?: string;
+  limit?: number;
+}
+
+/** Where audit records are kept; implemented by AuditStore and the AuditLog Durable Object. */
+export interface AuditLogBackend {
+  append(record: AuditRecord): Promise<void> | void;
+  query(filter: AuditQuery): Promise<AuditRecord[]> | AuditRecord[];
+}
+
+type AuditRow = {
+  id: string;
+  ts: string;
+  session_id: string;
+  user_id: string | null;
+  service: string | null;
+  tool: string;
+  object_kind: string | null;
+  object_name: string | null;
+  args: string;
+  outcome: string;
+  code: string;
+  message: string | null;
+  etag_before: string | null;
+  etag_after: string | null;
+  duration_ms: number;
+};
+
+export class AuditStore implements AuditLogBackend {
+  private initialized = false;
+
+  constructor(private readonly sql: SqlExecutor) {}
+
+  private ensureTable() {
+    if (this.initialized) return;
+    this.sql`CREATE TABLE IF NOT EXISTS audit_log (
+      id TEXT PRIMARY KEY,
+      ts TEXT NOT NULL,
+      session_id TEXT NOT NULL,
+      user_id TEXT,
+      service TEXT,
+      tool TEXT NOT NULL,
+      object_kind TEXT,
+      object_name TEXT,
+      args TEXT NOT NULL,
+      outcome TEXT NOT NULL,
+      code TEXT NOT NULL,
+      message TEXT,
+      etag_before TEXT,
+      etag_after TEXT,
+      duration_ms INTEGER NOT NULL
+    )`;
+    this.sql`CREATE INDEX IF NOT EXISTS audit_log_ts ON audit_log (ts)`;
+    this.initialized = true;
+  }
+
+  append(r: AuditRecord) {
+    this.ensureTable();
+    this.sql`INSERT INTO audit_log (id, ts, session_id, user_id, service, tool, object_kind, object_name, args, outcome, code, message, etag_before, etag_after, duration_ms)
+      VALUES (${r.id}, ${r.timestamp}, ${r.sessionId}, ${r.userId}, ${r.service}, ${r.tool}, ${r.objectKind}, ${r.objectName}, ${r.args},
+              ${r.outcome}, ${r.code}, ${r.message}, ${r.etagBefore}, ${r.etagAfter}, ${r.durationMs})`;
+  }
+
+  query(filter: AuditQuery): AuditRecord[] {
+    this.ensureTable();
+    const limit = Math.min(Math.max(filter.limit ?? DEFAULT_AUDIT_QUERY_LIMIT, 1), MAX_AUDIT_QUERY_LIMIT);
+    // Unset filters bind NULL and match everything
+    const rows = this.sql<AuditRow>`SELECT * FROM audit_log
+      WHERE (${filter.since ?? null} IS NULL OR ts >= ${filter.since ?? null})
+        AND (${filter.until ?? null} IS NULL OR ts <= ${filter.until ?? null})
+        AND (${filter.tool ?? null} IS NULL OR tool = ${filter.tool ?? null})
+        AND (${filter.objectName ?? null} IS NULL OR object_name = ${filter.objectName ?? null})
+        AND (${filter.outcome ?? null} IS NULL OR outcome = ${filter.outcome ?? null})
+        AND (${filter.sessionId ?? null} IS NULL OR session_id = ${filter.sessionId ?? null})
+      ORDER BY ts DESC
+      LIMIT ${limit}`;
+    return rows.map((r) => ({
+      id: r.id,
+      timestamp: r.ts,
+      sessionId: r.session_id,
+      userId: r.user_id,
+      service: r.service,
+      tool: r.tool,
+      objectKind: r.object_kind,
+      objectName: r.object_name,
+      args: r.args,
+      outcome: r.outcome as AuditRecord["outcome"],
+      code: r.code,
+      message: r.message,
+      etagBefore: r.etag_before,
+      etagAfter: r.etag_after,
+      durationMs: r.duration_ms,
+    }));
+  }
+}
+
+// ---------------- Argument sanitizing ----------------
+
+const SENSITIVE_ARG_PATTERN = /(apiKey|accountKey|secret|secrets|password|token|connectionString|credentials|sasToken)$/i;
+const MAX_AUDIT_STRING_CHARS = 200;
+const MAX_AUDIT_ARRAY_ITEMS = 10;
+
+/** Mask credentials and shrink bulk payloads (documents, CSV text) so records stay small. */
+export function sanitizeArgs(params: unknown): string {
+  const walk = (v: any, depth: number): any => {
+    if (typeof v === "string") return v.length > MAX_AUDIT_STRING_CHARS ? `${v.slice(0, MAX_AUDIT_STRING_CHARS)}…(${v.length} chars)` : v;
+    if (Array.isArray(v)) {
+      if (v.length > MAX_AUDIT_ARRAY_ITEMS) return `<${v.length} items>`;
+      return v.map((item) => walk(item, depth + 1));
+    }
+    if (v && typeof v === "object") {
+      if (depth > 4) return "<object>";
+      return Object.fromEntries(
+        Object.entries(v).map(([k, val]) => [k, SENSITIVE_ARG_PATTERN.test(k) && val != null ? "<redacted>" : walk(val, depth + 1)]),
+      );
+    }
+    return v;
+  };
+  const json = JSON.stringify(walk(params ?? {}, 0));
+  return json.length > MAX_AUDIT_ARGS_CHARS ? `${json.slice(0, MAX_AUDIT_ARGS_CHARS)}…` : json;
+}
+
+// ---------------- Target resolution ----------------
+
+type AuditTarget = { kind: string; name: string | null; getEtag?: (client: AzureSearchClient, name: string) => Promise<unknown> };
+
+const NAME_PARAMS = ["indexName", "skillsetName", "indexerName", "dataSourceName", "aliasName", "agentName", "sourceName", "name", "targetIndex"];
+
+// Checked in order: document tools touch an index's data, not its definition, so they carry no ETag
+const TARGETS: Array<{ pattern: RegExp; kind: string; getEtag?: AuditTarget["getEtag"] }> = [
+  { pattern: /Documents$/, kind: "documents" },
+  { pattern: /Indexer/, kind: "indexer", getEtag: (c, n) => c.getIndexer(n) },
+  { pattern: /Skillset|Skills$/, kind: "skillset", getEtag: (c, n) => c.getSkillset(n) },
+  { pattern: /DataSource/, kind: "dataSource", getEtag: (c, n) => c.getDataSource(n) },
+  { pattern: /SynonymMap/, kind: "synonymMap", getEtag: (c, n) => c.getSynonymMap(n) },
+  { pattern: /Alias/, kind: "alias", getEtag: (c, n) => c.getAlias(n) },
+  { pattern: /KnowledgeAgent/, kind: "knowledgeAgent", getEtag: (c, n) => c.getKnowledgeAgent(n) },
+  { pattern: /KnowledgeSource/, kind: "knowledgeSource", getEtag: (c, n) => c.getKnowledgeSource(n) },
+  { pattern: /Index/, kind: "index", getEtag: (c, n) => c.getIndex(n) },
+];
+
+export function resolveAuditTarget(tool: string, params: Record<string, any> | undefined): AuditTarget | null {
+  const match = TARGETS.find((t) => t.pattern.test(tool));
+  if (!match) return null;
+  const key = NAME_PARAMS.find((k) => typeof params?.[k] === "string" && params[k]);
+  const name = key
+    ? (params![key] as string)
+    : typeof params?.indexDefinition?.name === "string"
+      ? params.indexDefinition.name
+      : null;
+  return { kind: match.kind, name, getEtag: match.getEtag };
+}
+
+async function currentEtag(client: AzureSearchClient, target: AuditTarget | null): Promise<string | null> {
+  if (!target?.getEtag || !target.name) return null;
+  try {
+    return extractEtag(await withTimeout(() => target.getEtag!(client.fresh(), target.name!), AUDIT_ETAG_TIMEOUT_MS, "auditEtag"));
+  } catch {
+    return null; // Not found (create/delete) or unreachable
+  }
+}
+
+// Outcome for tools that format their own responses instead of going through ResponseFormatter
+function outcomeFromResult(result: any): { code: string; message?: string } {
+  if (!result?.isError) return { code: "OK" };
+  try {
+    const parsed = JSON.parse(result.content?.[0]?.text ?? "");
+    return { code: parsed.code ?? "ERR_UNKNOWN", message: parsed.message };
+  } catch {
+    return { code: "ERR_UNKNOWN", message: String(result.content?.[0]?.text ?? "").slice(0, 500) };
+  }
+}
+
+export interface AuditTrailOptions {
+  getBackend: () => AuditLogBackend;
+  getClient: () => AzureSearchClient;
+  getSessionId: () => string;
+  getUserId: () => string | null;
+  getService: () => string | null;
+}
+
+const isHints = (v: unknown): v is { readOnlyHint?: boolean } => !!v && typeof v === "object" && "readOnlyHint" in v;
+
+/**
+ * Wrap `server.tool` so every mutating tool (no readOnlyHint) registered afterwards is audited.
+ * ResponseFormatter reports the outcome into the call's audit scope; audit failures never fail the tool.
+ * A handler that throws is recorded as an error and the exception is rethrown.
+ * The wrapper sits outside installServiceArgument's, so it enters the `service` profile's scope itself.
+ */
+export function installAuditTrail(server: any, options: AuditTrailOptions) {
+  const register = server.tool.bind(server);
+
+  server.tool = (...args: any[]) => {
+    const tool: string = args[0];
+    const hints = args.find(isHints);
+    const handlerIndex = args.findIndex((a) => typeof a === "function");
+    if (hints?.readOnlyHint || handlerIndex === -1) return register(...args);
+
+    const handler = args[handlerIndex];
+    const wrapped = [...args];
+    wrapped[handlerIndex] = (params: any, extra: any) =>
+      runWithService(params?.service ?? currentService(), async () => {
+        const started = Date.now();
+        const target = resolveAuditTarget(tool, params);
+        let client: AzureSearchClient | null = null;
+        try {
+          client = options.getClient();
+        } catch {
+          // No service configured; the tool will report that itself
+        }
+        const etagBefore = client ? await currentEtag(client, target) : null;
+
+        const scope: AuditScope = { tool };
+        let result: any;
+        let thrown: unknown;
+        try {
+          result = await runInAuditScope(scope, () => handler(params, extra));
+        } catch (e) {
+          thrown = e; // Recorded below, then rethrown
+        }
+        const failed = thrown !== undefined || !!result?.isError;
+
+        try {
+          const outcome =
+            thrown !== undefined
+              ? (scope.outcome?.code !== "OK" && scope.outcome) || {
+                  code: "ERR_UNKNOWN",
+                  message: (thrown instanceof Error ? thrown.message : String(thrown)).slice(0, 500),
+                }
+              : result?.isError
+                ? (scope.outcome?.code !== "OK" && scope.outcome) || outcomeFromResult(result)
+                : (scope.outcome ?? { code: "OK" });
+          await options.getBackend().append({
+            id: crypto.randomUUID(),
+            timestamp: new Date(started).toISOString(),
+            sessionId: options.getSessionId(),
+            userId: options.getUserId(),
+            service: options.getService(),
+            tool,
+            objectKind: target?.kind ?? null,
+            objectName: target?.name ?? null,
+            args: sanitizeArgs(params),
+            outcome: failed ? "error" : "success",
+            code: outcome.code,
+            message: outcome.message ?? null,
+            etagBefore,
+            etagAfter: client && !failed ? await currentEtag(client, target) : etagBefore,
+            durationMs: Date.now() - started,
+          });
+        } catch (e) {
+          console.error("Failed to write audit record", e);
+        }
+        if (thrown !== undefined) throw thrown;
+        return result;
+      });
+    return register(...wrapped);
+  };
+}
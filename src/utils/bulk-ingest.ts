@@ -0,0 +1,200 @@
+// src/utils/bulk-ingest.ts
+/**
+ * Bulk document ingestion: split actions into batches that respect both the document-count and
+ * payload-size limits, send them with bounded concurrency, and retry only the keys that failed
+ * with a transient status.
+ */
+import {
+  MAX_DOCUMENTS_PER_BATCH,
+  MAX_BATCH_BYTES,
+  DEFAULT_BULK_CONCURRENCY,
+  DEFAULT_BULK_MAX_RETRIES,
+  BULK_RETRY_BASE_DELAY_MS,
+} from "../constants";
+import type { IndexAction, OperationResult } from "../types";
+
+// Per-item (207) and whole-request statuses worth retrying
+const RETRYABLE_STATUSES = new Set([409, 422, 503]);
+
+// Room for the {"value":[...]} envelope and separators
+const ENVELOPE_BYTES = 64;
+
+const encoder = new TextEncoder();
+
+export interface BulkIngestOptions {
+  keyField: string;
+  send: (actions: IndexAction[]) => Promise<OperationResult>;
+  batchSize?: number;
+  maxBatchBytes?: number;
+  concurrency?: number;
+  maxRetries?: number;
+  onProgress?: (progress: { completedBatches: number; totalBatches: number; succeeded: number; failed: number }) => void | Promise<void>;
+}
+
+export interface BulkIngestFailure {
+  key: string;
+  statusCode: number | null;
+  errorMessage: string;
+  attempts: number;
+}
+
+export interface BulkIngestReport {
+  totalDocuments: number;
+  batches: number;
+  succeeded: number;
+  failed: number;
+  retriedKeys: number;
+  succeededKeys: string[];
+  failedKeys: BulkIngestFailure[];
+  durationMs: number;
+}
+
+/**
+ * Split actions into batches of at most `batchSize` documents and `maxBatchBytes` serialized bytes.
+ * A single action larger than the byte limit is returned as its own batch so the service reports it.
+ */
+export function chunkActions(
+  actions: IndexAction[],
+  batchSize: number = MAX_DOCUMENTS_PER_BATCH,
+  maxBatchBytes: number = MAX_BATCH_BYTES,
+): IndexAction[][] {
+  const batches: IndexAction[][] = [];
+  let current: IndexAction[] = [];
+  let currentBytes = ENVELOPE_BYTES;
+
+  for (const action of actions) {
+    const size = encoder.encode(JSON.stringify(action)).length + 1;
+    if (current.length > 0 && (current.length >= batchSize || currentBytes + size > maxBatchBytes)) {
+      batches.push(current);
+      current = [];
+      currentBytes = ENVELOPE_BYTES;
+    }
+    current.push(action);
+    currentBytes += size;
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+function backoffDelay(attempt: number): number {
+  const base = BULK_RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
+  return base + Math.floor(Math.random() * BULK_RETRY_BASE_DELAY_MS);
+}
+
+/**
+ * Index a batch, retrying failed keys with exponential backoff while their status is retryable.
+ * Returns the final outcome of every key in the batch.
+ */
+async function sendWithRetry(
+  batch: IndexAction[],
+  options: Required<Pick<BulkIngestOptions, "keyField" | "send" | "maxRetries">>,
+): Promise<{ succeeded: string[]; failed: BulkIngestFailure[]; retried: Set<string> }> {
+  const { keyField, send, maxRetries } = options;
+  const succeeded: string[] = [];
+  const failed: BulkIngestFailure[] = [];
+  const retried = new Set<string>();
+
+  let pending = batch;
+  for (let attempt = 0; pending.length > 0; attempt++) {
+    const byKey = new Map<string, IndexAction>(pending.map((a) => [String(a[keyField]), a]));
+    const retry: IndexAction[] = [];
+    const canRetry = attempt < maxRetries;
+
+    try {
+      const result = await send(pending);
+      const seen = new Set<string>();
+      for (const item of result?.value || []) {
+        seen.add(item.key);
+        if (item.status) {
+          succeeded.push(item.key);
+        } else if (canRetry && RETRYABLE_STATUSES.has(item.statusCode) && byKey.has(item.key)) {
+          retry.push(byKey.get(item.key)!);
+        } else {
+          failed.push({
+            key: item.key,
+            statusCode: item.statusCode,
+            errorMessage: item.errorMessage || `Indexing failed with status ${item.statusCode}`,
+            attempts: attempt + 1,
+          });
+        }
+      }
+      // The service reports every key; treat anything missing as failed rather than silently dropping it
+      for (const [key] of byKey) {
+        if (!seen.has(key)) {
+          failed.push({ key, statusCode: null, errorMessage: "No result returned for key", attempts: attempt + 1 });
+        }
+      }
+    } catch (e: any) {
+      const status = e?.statusCode ?? e?.response?.status ?? null;
+      if (canRetry && status !== null && RETRYABLE_STATUSES.has(status)) {
+        retry.push(...pending);
+      } else {
+        const message = e?.message ?? String(e);
+        for (const [key] of byKey) {
+          failed.push({ key, statusCode: status, errorMessage: message, attempts: attempt + 1 });
+        }
+      }
+    }
+
+    if (retry.length === 0) break;
+    retry.forEach((a) => retried.add(String(a[keyField])));
+    await sleep(backoffDelay(attempt));
+    pending = retry;
+  }
+
+  return { succeeded, failed, retried };
+}
+
+/**
+ * Ingest any number of index actions. Every action must carry `@search.action` and the key field.
+ */
+export async function bulkIndex(actions: IndexAction[], options: BulkIngestOptions): Promise<BulkIngestReport> {
+  const t0 = Date.now();
+  const maxRetries = options.maxRetries ?? DEFAULT_BULK_MAX_RETRIES;
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_BULK_CONCURRENCY);
+
+  const missingKey = actions.findIndex((a) => a[options.keyField] === undefined || a[options.keyField] === null);
+  if (missingKey >= 0) {
+    throw new Error(`Document at position ${missingKey} is missing key field '${options.keyField}'`);
+  }
+
+  const batches = chunkActions(actions, options.batchSize ?? MAX_DOCUMENTS_PER_BATCH, options.maxBatchBytes ?? MAX_BATCH_BYTES);
+
+  const succeededKeys: string[] = [];
+  const failedKeys: BulkIngestFailure[] = [];
+  const retried = new Set<string>();
+  let next = 0;
+  let completed = 0;
+
+  const worker = async () => {
+    while (next < batches.length) {
+      const batch = batches[next++];
+      const outcome = await sendWithRetry(batch, { keyField: options.keyField, send: options.send, maxRetries });
+      succeededKeys.push(...outcome.succeeded);
+      failedKeys.push(...outcome.failed);
+      outcome.retried.forEach((k) => retried.add(k));
+      completed++;
+      await options.onProgress?.({
+        completedBatches: completed,
+        totalBatches: batches.length,
+        succeeded: succeededKeys.length,
+        failed: failedKeys.length,
+      });
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, batches.length) }, worker));
+
+  return {
+    totalDocuments: actions.length,
+    batches: batches.length,
+    succeeded: succeededKeys.length,
+    failed: failedKeys.length,
+    retriedKeys: retried.size,
+    succeededKeys,
+    failedKeys,
+    durationMs: Date.now() - t0,
+  };
+}
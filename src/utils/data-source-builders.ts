@@ -0,0 +1,235 @@
+// src/utils/data-source-builders.ts
+/**
+ * Build data source definitions for Cosmos DB, Azure SQL, Table Storage and ADLS Gen2, and validate
+ * connection strings and change/deletion detection policies against what each source type supports.
+ */
+export type DataSourceType = "azureblob" | "adlsgen2" | "cosmosdb" | "azuresql" | "azuretable";
+
+export const HIGH_WATER_MARK_POLICY = "#Microsoft.Azure.Search.HighWaterMarkChangeDetectionPolicy";
+export const SQL_CHANGE_TRACKING_POLICY = "#Microsoft.Azure.Search.SqlIntegratedChangeTrackingPolicy";
+export const SOFT_DELETE_POLICY = "#Microsoft.Azure.Search.SoftDeleteColumnDeletionDetectionPolicy";
+export const NATIVE_BLOB_SOFT_DELETE_POLICY = "#Microsoft.Azure.Search.NativeBlobSoftDeleteDeletionDetectionPolicy";
+
+interface PolicyRules {
+  change: string[];
+  deletion: string[];
+  // Required high-water-mark column, when the source has a fixed one
+  highWaterMarkColumn?: string;
+}
+
+const POLICY_RULES: Record<DataSourceType, PolicyRules> = {
+  azureblob: { change: [HIGH_WATER_MARK_POLICY], deletion: [SOFT_DELETE_POLICY, NATIVE_BLOB_SOFT_DELETE_POLICY] },
+  adlsgen2: { change: [HIGH_WATER_MARK_POLICY], deletion: [SOFT_DELETE_POLICY, NATIVE_BLOB_SOFT_DELETE_POLICY] },
+  cosmosdb: { change: [HIGH_WATER_MARK_POLICY], deletion: [SOFT_DELETE_POLICY], highWaterMarkColumn: "_ts" },
+  azuresql: { change: [HIGH_WATER_MARK_POLICY, SQL_CHANGE_TRACKING_POLICY], deletion: [SOFT_DELETE_POLICY] },
+  azuretable: { change: [HIGH_WATER_MARK_POLICY], deletion: [SOFT_DELETE_POLICY], highWaterMarkColumn: "Timestamp" },
+};
+
+export interface SoftDeleteOptions {
+  columnName: string;
+  markerValue: string;
+}
+
+/** Parse "Key=Value;Key2=Value2" (values may contain '='); keys are lowercased. */
+export function parseConnectionString(connectionString: string): Map<string, string> {
+  const parts = new Map<string, string>();
+  for (const segment of connectionString.split(";")) {
+    const eq = segment.indexOf("=");
+    if (eq <= 0) continue;
+    parts.set(segment.slice(0, eq).trim().toLowerCase(), segment.slice(eq + 1).trim());
+  }
+  return parts;
+}
+
+const has = (parts: Map<string, string>, ...keys: string[]) => keys.some((k) => !!parts.get(k.toLowerCase()));
+
+/** Check a connection string's shape for the source type. Returns problems; never echoes secret values. */
+export function validateConnectionString(type: DataSourceType, connectionString: string): string[] {
+  const parts = parseConnectionString(connectionString);
+  if (parts.size === 0) return ["connectionString must be 'Key=Value;...' pairs"];
+  const managedIdentity = has(parts, "ResourceId");
+  const errors: string[] = [];
+
+  switch (type) {
+    case "cosmosdb":
+      if (!managedIdentity) {
+        if (!has(parts, "AccountEndpoint")) errors.push("Cosmos DB connectionString needs AccountEndpoint=https://<account>.documents.azure.com:443/");
+        else if (!/^https:\/\//i.test(parts.get("accountendpoint")!)) errors.push("Cosmos DB AccountEndpoint must be an https:// URL");
+        if (!has(parts, "AccountKey")) errors.push("Cosmos DB connectionString needs AccountKey (or use ResourceId=... for a managed identity)");
+      }
+      if (!has(parts, "Database")) errors.push("Cosmos DB connectionString needs Database=<database name>");
+      break;
+    case "azuresql":
+      if (managedIdentity) {
+        if (!has(parts, "Database", "Initial Catalog")) errors.push("Azure SQL connectionString needs Database (or Initial Catalog)");
+        break;
+      }
+      if (!has(parts, "Server", "Data Source")) errors.push("Azure SQL connectionString needs Server=tcp:<server>.database.windows.net,1433");
+      if (!has(parts, "Database", "Initial Catalog")) errors.push("Azure SQL connectionString needs Database (or Initial Catalog)");
+      if (!has(parts, "Password", "Authentication")) {
+        errors.push("Azure SQL connectionString needs User ID and Password, an Authentication mode, or ResourceId=... for a managed identity");
+      }
+      break;
+    case "azuretable":
+    case "adlsgen2":
+    case "azureblob": {
+      if (managedIdentity) break;
+      const sas = has(parts, "SharedAccessSignature");
+      const endpointKey = type === "azuretable" ? "TableEndpoint" : "BlobEndpoint";
+      if (sas) {
+        if (!has(parts, endpointKey)) errors.push(`SAS connectionString needs ${endpointKey}=https://<account>...`);
+        break;
+      }
+      if (!has(parts, "AccountName")) errors.push("Storage connectionString needs AccountName");
+      if (!has(parts, "AccountKey")) errors.push("Storage connectionString needs AccountKey (or SharedAccessSignature, or ResourceId=... for a managed identity)");
+      break;
+    }
+  }
+  return errors;
+}
+
+/** Check change and deletion detection policies against what the source type supports. */
+export function validateDetectionPolicies(type: DataSourceType, changePolicy: any, deletionPolicy: any): string[] {
+  const rules = POLICY_RULES[type];
+  const errors: string[] = [];
+  const changeType = changePolicy?.["@odata.type"];
+  const deletionType = deletionPolicy?.["@odata.type"];
+
+  if (changeType) {
+    if (!rules.change.includes(changeType)) {
+      errors.push(`${type} does not support change detection policy ${changeType}. Allowed: ${rules.change.join(", ")}`);
+    } else if (changeType === HIGH_WATER_MARK_POLICY) {
+      const column = changePolicy.highWaterMarkColumnName;
+      if (!column) errors.push("HighWaterMarkChangeDetectionPolicy needs highWaterMarkColumnName");
+      else if (rules.highWaterMarkColumn && column !== rules.highWaterMarkColumn) {
+        errors.push(`${type} high-water mark must be the '${rules.highWaterMarkColumn}' column (got '${column}')`);
+      }
+    }
+  }
+
+  if (deletionType) {
+    if (!rules.deletion.includes(deletionType)) {
+      errors.push(`${type} does not support deletion detection policy ${deletionType}. Allowed: ${rules.deletion.join(", ")}`);
+    } else if (deletionType === SOFT_DELETE_POLICY && (!deletionPolicy.softDeleteColumnName || deletionPolicy.softDeleteMarkerValue === undefined)) {
+      errors.push("SoftDeleteColumnDeletionDetectionPolicy needs softDeleteColumnName and softDeleteMarkerValue");
+    }
+    // Integrated change tracking already reports deleted rows
+    if (changeType === SQL_CHANGE_TRACKING_POLICY) {
+      errors.push("Do not combine SqlIntegratedChangeTrackingPolicy with a deletion detection policy; change tracking detects deletes itself");
+    }
+  }
+  return errors;
+}
+
+const highWaterMark = (column: string) => ({ "@odata.type": HIGH_WATER_MARK_POLICY, highWaterMarkColumnName: column });
+
+const softDelete = (opts?: SoftDeleteOptions) =>
+  opts ? { "@odata.type": SOFT_DELETE_POLICY, softDeleteColumnName: opts.columnName, softDeleteMarkerValue: opts.markerValue } : null;
+
+function finish(type: DataSourceType, def: any) {
+  const errors = [
+    ...validateConnectionString(type, def.credentials.connectionString),
+    ...validateDetectionPolicies(type, def.dataChangeDetectionPolicy, def.dataDeletionDetectionPolicy),
+  ];
+  if (errors.length > 0) throw new Error(`Validation failed:\n${errors.join("\n")}`);
+  return def;
+}
+
+export function buildCosmosDbDataSource(opts: {
+  name: string;
+  connectionString: string;
+  containerName: string;
+  query?: string;
+  trackChanges: boolean;
+  softDelete?: SoftDeleteOptions;
+  description?: string;
+}) {
+  // Incremental runs substitute the last _ts seen for @HighWaterMark
+  if (opts.query && opts.trackChanges && !(/\b_ts\b/.test(opts.query) && /@HighWaterMark\b/.test(opts.query))) {
+    throw new Error(
+      "Validation failed:\nWith trackChanges, a custom query must filter and order on _ts, e.g. SELECT * FROM c WHERE c._ts >= @HighWaterMark ORDER BY c._ts",
+    );
+  }
+  return finish("cosmosdb", {
+    name: opts.name,
+    type: "cosmosdb",
+    description: opts.description,
+    credentials: { connectionString: opts.connectionString },
+    container: { name: opts.containerName, query: opts.query },
+    dataChangeDetectionPolicy: opts.trackChanges ? highWaterMark("_ts") : null,
+    dataDeletionDetectionPolicy: softDelete(opts.softDelete),
+  });
+}
+
+export function buildAzureSqlDataSource(opts: {
+  name: string;
+  connectionString: string;
+  tableOrView: string;
+  changeDetection: "none" | "changeTracking" | "highWaterMark";
+  highWaterMarkColumn?: string;
+  softDelete?: SoftDeleteOptions;
+  description?: string;
+}) {
+  if (opts.changeDetection === "highWaterMark" && !opts.highWaterMarkColumn) {
+    throw new Error("Validation failed:\nchangeDetection 'highWaterMark' needs highWaterMarkColumn (a rowversion or last-updated column)");
+  }
+  const changePolicy =
+    opts.changeDetection === "changeTracking"
+      ? { "@odata.type": SQL_CHANGE_TRACKING_POLICY }
+      : opts.changeDetection === "highWaterMark"
+        ? highWaterMark(opts.highWaterMarkColumn!)
+        : null;
+  return finish("azuresql", {
+    name: opts.name,
+    type: "azuresql",
+    description: opts.description,
+    credentials: { connectionString: opts.connectionString },
+    container: { name: opts.tableOrView },
+    dataChangeDetectionPolicy: changePolicy,
+    dataDeletionDetectionPolicy: softDelete(opts.softDelete),
+  });
+}
+
+export function buildAzureTableDataSource(opts: {
+  name: string;
+  connectionString: string;
+  tableName: string;
+  query?: string;
+  trackChanges: boolean;
+  softDelete?: SoftDeleteOptions;
+  description?: string;
+}) {
+  return finish("azuretable", {
+    name: opts.name,
+    type: "azuretable",
+    description: opts.description,
+    credentials: { connectionString: opts.connectionString },
+    container: { name: opts.tableName, query: opts.query },
+    dataChangeDetectionPolicy: opts.trackChanges ? highWaterMark("Timestamp") : null,
+    dataDeletionDetectionPolicy: softDelete(opts.softDelete),
+  });
+}
+
+export function buildAdlsGen2DataSource(opts: {
+  name: string;
+  connectionString: string;
+  fileSystem: string;
+  folder?: string;
+  softDelete?: SoftDeleteOptions;
+  nativeSoftDelete: boolean;
+  description?: string;
+}) {
+  if (opts.softDelete && opts.nativeSoftDelete) {
+    throw new Error("Validation failed:\nChoose either softDelete (metadata column) or nativeSoftDelete, not both");
+  }
+  return finish("adlsgen2", {
+    name: opts.name,
+    type: "adlsgen2",
+    description: opts.description,
+    credentials: { connectionString: opts.connectionString },
+    container: { name: opts.fileSystem, query: opts.folder },
+    // Blob-based sources track changes by last-modified time without an explicit policy
+    dataChangeDetectionPolicy: null,
+    dataDeletionDetectionPolicy: opts.nativeSoftDelete ? { "@odata.type": NATIVE_BLOB_SOFT_DELETE_POLICY } : softDelete(opts.softDelete),
+  });
+}
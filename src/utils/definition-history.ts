@@ -0,0 +1,236 @@
+// src/utils/definition-history.ts
+/**
+ * Prior versions of index, skillset, indexer, data source, synonym map, knowledge agent and
+ * knowledge source definitions, saved before each createOrUpdate* tool overwrites them.
+ * Stored in the shared DefinitionHistory Durable Object (or this session's SQLite storage when it is
+ * not bound), keyed by service endpoint, kind and name.
+ */
+import type { AzureSearchClient } from "../azure-search-client";
+import type { SqlExecutor } from "../types";
+import { getLiveDefinition, redactSecrets, type ResourceKind } from "./resource-plan";
+import { extractEtag } from "./verify";
+import { currentService, runWithService } from "./service-profiles";
+
+// Secrets never come back from GET; "<unchanged>" tells the service to keep the live value on rollback
+export const UNCHANGED_SECRET = "<unchanged>";
+
+export interface DefinitionVersion {
+  id: string;
+  endpoint: string;
+  kind: ResourceKind;
+  name: string;
+  version: number;
+  etag: string | null;
+  savedAt: string;
+  tool: string; // tool whose write replaced this version
+}
+
+type HistoryRow = {
+  id: string;
+  endpoint: string;
+  kind: string;
+  name: string;
+  version: number;
+  etag: string | null;
+  saved_at: string;
+  tool: string;
+  definition: string;
+};
+
+// Tools whose writes are versioned, and the parameter naming the target
+export const VERSIONED_TOOLS: Record<string, { kind: ResourceKind; nameParam: string }> = {
+  createOrUpdateIndex: { kind: "index", nameParam: "indexName" },
+  createOrUpdateSkillset: { kind: "skillset", nameParam: "skillsetName" },
+  createOrUpdateBlobIndexer: { kind: "indexer", nameParam: "name" },
+  createOrUpdateIndexer: { kind: "indexer", nameParam: "name" },
+  createOrUpdateBlobDataSource: { kind: "dataSource", nameParam: "name" },
+  createOrUpdateCosmosDbDataSource: { kind: "dataSource", nameParam: "name" },
+  createOrUpdateSqlDataSource: { kind: "dataSource", nameParam: "name" },
+  createOrUpdateTableDataSource: { kind: "dataSource", nameParam: "name" },
+  createOrUpdateAdlsGen2DataSource: { kind: "dataSource", nameParam: "name" },
+  createOrUpdateSynonymMap: { kind: "synonymMap", nameParam: "name" },
+  createOrUpdateKnowledgeAgent: { kind: "knowledgeAgent", nameParam: "agentName" },
+  createOrUpdateKnowledgeSource: { kind: "knowledgeSource", nameParam: "sourceName" },
+};
+
+export const HISTORY_KINDS = [...new Set(Object.values(VERSIONED_TOOLS).map((t) => t.kind))] as [ResourceKind, ...ResourceKind[]];
+
+/** Strip service metadata and mask secrets so a stored version can be PUT back as-is. */
+export function toStoredDefinition(kind: ResourceKind, live: any): any {
+  const { "@odata.etag": _etag, "@odata.context": _ctx, ...def } = live ?? {};
+  if (kind === "dataSource") {
+    def.credentials = { ...(def.credentials || {}), connectionString: UNCHANGED_SECRET };
+  }
+  return redactSecrets(def, UNCHANGED_SECRET).value;
+}
+
+/**
+ * Fill masked secrets in a stored version from the live definition at the same path (array items are
+ * matched by name). Secrets the service never returns, like data source connection strings, stay "<unchanged>".
+ */
+export function restoreSecrets(stored: any, live: any): any {
+  if (Array.isArray(stored)) {
+    return stored.map((item, i) => {
+      const match = Array.isArray(live)
+        ? item && typeof item === "object" && "name" in item
+          ? live.find((l: any) => l?.name === item.name)
+          : live[i]
+        : undefined;
+      return restoreSecrets(item, match);
+    });
+  }
+  if (stored && typeof stored === "object") {
+    return Object.fromEntries(
+      Object.entries(stored).map(([k, v]) => {
+        const liveValue = live && typeof live === "object" ? live[k] : undefined;
+        // Only redaction writes the marker, so any property holding it was a secret
+        if (v === UNCHANGED_SECRET) {
+          return [k, typeof liveValue === "string" && liveValue ? liveValue : v];
+        }
+        return [k, restoreSecrets(v, liveValue)];
+      }),
+    );
+  }
+  return stored;
+}
+
+export interface DefinitionHistoryBackend {
+  save(
+    endpoint: string,
+    kind: ResourceKind,
+    name: string,
+    live: any,
+    tool: string,
+  ): Promise<DefinitionVersion | null> | DefinitionVersion | null;
+  list(endpoint: string, kind: ResourceKind, name: string, limit?: number): Promise<DefinitionVersion[]> | DefinitionVersion[];
+  get(
+    endpoint: string,
+    kind: ResourceKind,
+    name: string,
+    version: number,
+  ): Promise<(DefinitionVersion & { definition: any }) | null> | (DefinitionVersion & { definition: any }) | null;
+}
+
+export class DefinitionHistoryStore implements DefinitionHistoryBackend {
+  private initialized = false;
+
+  constructor(private readonly sql: SqlExecutor) {}
+
+  private ensureTable() {
+    if (this.initialized) return;
+    this.sql`CREATE TABLE IF NOT EXISTS definition_history (
+      id TEXT PRIMARY KEY,
+      endpoint TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      name TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      etag TEXT,
+      saved_at TEXT NOT NULL,
+      tool TEXT NOT NULL,
+      definition TEXT NOT NULL,
+      UNIQUE (endpoint, kind, name, version)
+    )`;
+    this.initialized = true;
+  }
+
+  /** Save a live definition as the next version. Returns null when it matches the latest saved version. */
+  save(endpoint: string, kind: ResourceKind, name: string, live: any, tool: string): DefinitionVersion | null {
+    this.ensureTable();
+    const etag = extractEtag(live);
+    const latest = this.sql<Pick<HistoryRow, "version" | "etag">>`SELECT version, etag FROM definition_history
+      WHERE endpoint = ${endpoint} AND kind = ${kind} AND name = ${name} ORDER BY version DESC LIMIT 1`[0];
+    if (latest && etag && latest.etag === etag) return null;
+
+    const entry: DefinitionVersion = {
+      id: crypto.randomUUID(),
+      endpoint,
+      kind,
+      name,
+      version: (latest?.version ?? 0) + 1,
+      etag,
+      savedAt: new Date().toISOString(),
+      tool,
+    };
+    this.sql`INSERT INTO definition_history (id, endpoint, kind, name, version, etag, saved_at, tool, definition)
+      VALUES (${entry.id}, ${endpoint}, ${kind}, ${name}, ${entry.version}, ${etag}, ${entry.savedAt}, ${tool},
+              ${JSON.stringify(toStoredDefinition(kind, live))})`;
+    return entry;
+  }
+
+  list(endpoint: string, kind: ResourceKind, name: string, limit = 20): DefinitionVersion[] {
+    this.ensureTable();
+    const rows = this.sql<Omit<HistoryRow, "definition">>`SELECT id, endpoint, kind, name, version, etag, saved_at, tool
+      FROM definition_history WHERE endpoint = ${endpoint} AND kind = ${kind} AND name = ${name}
+      ORDER BY version DESC LIMIT ${limit}`;
+    return rows.map(toVersion);
+  }
+
+  get(endpoint: string, kind: ResourceKind, name: string, version: number): (DefinitionVersion & { definition: any }) | null {
+    this.ensureTable();
+    const rows = this.sql<HistoryRow>`SELECT * FROM definition_history
+      WHERE endpoint = ${endpoint} AND kind = ${kind} AND name = ${name} AND version = ${version}`;
+    if (rows.length === 0) return null;
+    return { ...toVersion(rows[0]), definition: JSON.parse(rows[0].definition) };
+  }
+}
+
+function toVersion(r: Omit<HistoryRow, "definition">): DefinitionVersion {
+  return {
+    id: r.id,
+    endpoint: r.endpoint,
+    kind: r.kind as ResourceKind,
+    name: r.name,
+    version: r.version,
+    etag: r.etag,
+    savedAt: r.saved_at,
+    tool: r.tool,
+  };
+}
+
+const isHints = (v: unknown): v is { readOnlyHint?: boolean } => !!v && typeof v === "object" && "readOnlyHint" in v;
+
+/**
+ * Wrap `server.tool` so the VERSIONED_TOOLS registered afterwards save the target's current
+ * definition before they write. The version is kept only when the write succeeds; a failure to
+ * read or save history never blocks the write. Like the audit trail, it enters the `service`
+ * profile's scope itself because installServiceArgument wraps the handler inside it.
+ */
+export function installDefinitionHistory(
+  server: any,
+  options: { getStore: () => DefinitionHistoryBackend | null; getClient: () => AzureSearchClient },
+) {
+  const register = server.tool.bind(server);
+
+  server.tool = (...args: any[]) => {
+    const tool: string = args[0];
+    const versioned = VERSIONED_TOOLS[tool];
+    const handlerIndex = args.findIndex((a) => typeof a === "function");
+    if (!versioned || handlerIndex === -1 || args.find(isHints)?.readOnlyHint) return register(...args);
+
+    const handler = args[handlerIndex];
+    const wrapped = [...args];
+    wrapped[handlerIndex] = (params: any, extra: any) =>
+      runWithService(params?.service ?? currentService(), async () => {
+        const name = params?.[versioned.nameParam];
+        let live: any = null;
+        let client: AzureSearchClient | null = null;
+        try {
+          client = options.getClient();
+          if (typeof name === "string" && name) live = await getLiveDefinition(client, versioned.kind, name);
+        } catch (e) {
+          console.error(`Could not read ${versioned.kind} '${name}' for history`, e);
+        }
+
+        const result = await handler(params, extra);
+        if (live && client && !result?.isError) {
+          try {
+            await options.getStore()?.save(client.getEndpoint(), versioned.kind, name, live, tool);
+          } catch (e) {
+            console.error(`Could not save ${versioned.kind} '${name}' history`, e);
+          }
+        }
+        return result;
+      });
+    return register(...wrapped);
+  };
+}
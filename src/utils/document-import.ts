@@ -0,0 +1,396 @@
+// src/utils/document-import.ts
+/**
+ * Parsing and type coercion for document imports (NDJSON, CSV with header row, JSON array).
+ * Values are coerced to the target index's EDM types so type errors surface per row before upload.
+ */
+
+export type ImportFormat = "ndjson" | "csv" | "json";
+
+export interface RowError {
+  row: number; // 1-based data row (CSV header excluded)
+  field?: string;
+  value?: unknown;
+  message: string;
+}
+
+export interface ImportRow {
+  row: number; // 1-based position in the source, used for error reporting
+  values: Record<string, unknown>;
+}
+
+export interface ParsedRows {
+  rows: ImportRow[];
+  errors: RowError[];
+}
+
+/** Guess the format from the first non-whitespace character, falling back to CSV. */
+export function detectFormat(text: string): ImportFormat {
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith("[")) return "json";
+  if (trimmed.startsWith("{")) return "ndjson";
+  return "csv";
+}
+
+export function parseNdjson(text: string): ParsedRows {
+  const rows: ImportRow[] = [];
+  const errors: RowError[] = [];
+  const lines = text.split(/\r?\n/);
+  let row = 0;
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    row++;
+    try {
+      const obj = JSON.parse(line);
+      if (!obj || typeof obj !== "object" || Array.isArray(obj)) {
+        errors.push({ row, message: "Line is not a JSON object" });
+        continue;
+      }
+      rows.push({ row, values: obj });
+    } catch (e: any) {
+      errors.push({ row, message: `Invalid JSON: ${e?.message ?? String(e)}` });
+    }
+  }
+  return { rows, errors };
+}
+
+export function parseJsonArray(text: string): ParsedRows {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e: any) {
+    return { rows: [], errors: [{ row: 0, message: `Invalid JSON: ${e?.message ?? String(e)}` }] };
+  }
+  if (!Array.isArray(parsed)) {
+    return { rows: [], errors: [{ row: 0, message: "Expected a JSON array of documents" }] };
+  }
+  const rows: ImportRow[] = [];
+  const errors: RowError[] = [];
+  parsed.forEach((item, i) => {
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      errors.push({ row: i + 1, message: "Array element is not a JSON object" });
+    } else {
+      rows.push({ row: i + 1, values: item as Record<string, unknown> });
+    }
+  });
+  return { rows, errors };
+}
+
+/** RFC 4180 style CSV: quoted fields, doubled quotes, embedded newlines. First record is the header. */
+export function parseCsv(text: string, delimiter = ","): ParsedRows {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter((r) => !(r.length === 1 && r[0].trim() === ""));
+  if (nonEmpty.length === 0) return { rows: [], errors: [{ row: 0, message: "CSV payload is empty" }] };
+
+  const header = nonEmpty[0].map((h) => h.trim());
+  const rows: ImportRow[] = [];
+  const errors: RowError[] = [];
+  nonEmpty.slice(1).forEach((values, i) => {
+    if (values.length !== header.length) {
+      errors.push({ row: i + 1, message: `Expected ${header.length} columns, found ${values.length}` });
+      return;
+    }
+    const obj: Record<string, unknown> = {};
+    header.forEach((h, j) => {
+      // Empty cells mean "no value" rather than an empty string
+      if (values[j] !== "") obj[h] = values[j];
+    });
+    rows.push({ row: i + 1, values: obj });
+  });
+  return { rows, errors };
+}
+
+export function parseDocuments(text: string, format: ImportFormat, csvDelimiter?: string): ParsedRows {
+  switch (format) {
+    case "ndjson":
+      return parseNdjson(text);
+    case "json":
+      return parseJsonArray(text);
+    case "csv":
+      return parseCsv(text, csvDelimiter);
+  }
+}
+
+// ---------------- Coercion ----------------
+
+type FieldDef = { name: string; type: string; fields?: FieldDef[] };
+
+class CoercionError extends Error {}
+
+// Date and time with an explicit offset; "03/04/2024" and epoch numbers are ambiguous, so they are rejected
+const ISO_DATE_TIME_OFFSET = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d{1,7})?)?(Z|[+-]\d{2}:\d{2})$/i;
+
+const INT64_MIN = -(2n ** 63n);
+const INT64_MAX = 2n ** 63n - 1n;
+
+function coerceScalar(value: unknown, type: string): unknown {
+  switch (type) {
+    case "Edm.String":
+      if (typeof value === "string") return value;
+      if (typeof value === "number" || typeof value === "boolean") return String(value);
+      throw new CoercionError("expected a string");
+    case "Edm.Int64": {
+      // Number() loses precision above 2^53, so digits are checked as text and sent as a string
+      const text = typeof value === "number" ? (Number.isSafeInteger(value) ? String(value) : "") : typeof value === "string" ? value.trim() : "";
+      if (!/^[+-]?\d+$/.test(text)) {
+        throw new CoercionError(typeof value === "number" ? "expected an integer (give values beyond 2^53 as strings)" : "expected an integer");
+      }
+      const n = BigInt(text);
+      if (n < INT64_MIN || n > INT64_MAX) throw new CoercionError("out of range for Edm.Int64");
+      return n.toString();
+    }
+    case "Edm.Int32":
+    case "Edm.Int16":
+    case "Edm.SByte":
+    case "Edm.Byte": {
+      const n = typeof value === "number" ? value : typeof value === "string" && value.trim() !== "" ? Number(value) : NaN;
+      if (!Number.isInteger(n)) throw new CoercionError("expected an integer");
+      if (type === "Edm.Int32" && (n < -2147483648 || n > 2147483647)) throw new CoercionError("out of range for Edm.Int32");
+      return n;
+    }
+    case "Edm.Double":
+    case "Edm.Single":
+    case "Edm.Half": {
+      if (typeof value === "number") return value;
+      if (typeof value === "string") {
+        const v = value.trim();
+        if (v === "NaN" || v === "INF" || v === "-INF") return v;
+        const n = Number(v);
+        if (v !== "" && Number.isFinite(n)) return n;
+      }
+      throw new CoercionError("expected a number");
+    }
+    case "Edm.Boolean":
+      if (typeof value === "boolean") return value;
+      if (typeof value === "string" && /^(true|false)$/i.test(value.trim())) return value.trim().toLowerCase() === "true";
+      throw new CoercionError("expected true or false");
+    case "Edm.DateTimeOffset": {
+      const text = typeof value === "string" ? value.trim() : "";
+      if (!ISO_DATE_TIME_OFFSET.test(text) || Number.isNaN(Date.parse(text))) {
+        throw new CoercionError("expected an ISO 8601 date and time with Z or an offset, e.g. 2024-03-04T10:00:00Z");
+      }
+      return text;
+    }
+    case "Edm.GeographyPoint":
+      return coerceGeographyPoint(value);
+    default:
+      return value;
+  }
+}
+
+/** Accepts GeoJSON points, {lat, lon}/{latitude, longitude} objects, or "lat,lon" strings. */
+function coerceGeographyPoint(value: unknown): unknown {
+  let v = value;
+  if (typeof v === "string") {
+    const s = v.trim();
+    if (s.startsWith("{")) {
+      try {
+        v = JSON.parse(s);
+      } catch {
+        throw new CoercionError("expected a GeoJSON point or 'lat,lon'");
+      }
+    } else {
+      const parts = s.split(/[,\s]+/).filter(Boolean).map(Number);
+      if (parts.length !== 2 || parts.some((n) => !Number.isFinite(n))) throw new CoercionError("expected 'lat,lon'");
+      v = { lat: parts[0], lon: parts[1] };
+    }
+  }
+  if (v && typeof v === "object") {
+    const o = v as any;
+    if (o.type === "Point" && Array.isArray(o.coordinates) && o.coordinates.length === 2) return o;
+    const lat = o.lat ?? o.latitude;
+    const lon = o.lon ?? o.lng ?? o.longitude;
+    if (typeof lat === "number" && typeof lon === "number") {
+      if (lat < -90 || lat > 90 || lon < -180 || lon > 180) throw new CoercionError("coordinates out of range");
+      return { type: "Point", coordinates: [lon, lat] };
+    }
+  }
+  throw new CoercionError("expected a GeoJSON point or 'lat,lon'");
+}
+
+function coerceValue(value: unknown, field: FieldDef, collectionDelimiter: string): unknown {
+  if (value === null || value === undefined) return null;
+
+  const collection = /^Collection\((.+)\)$/.exec(field.type);
+  if (collection) {
+    const inner = collection[1];
+    let items: unknown[];
+    if (Array.isArray(value)) {
+      items = value;
+    } else if (typeof value === "string") {
+      const s = value.trim();
+      if (s.startsWith("[")) {
+        try {
+          items = JSON.parse(s);
+        } catch {
+          throw new CoercionError("expected a JSON array");
+        }
+      } else {
+        items = s === "" ? [] : s.split(collectionDelimiter).map((x) => x.trim());
+      }
+    } else {
+      throw new CoercionError(`expected an array for ${field.type}`);
+    }
+    if (inner === "Edm.ComplexType") {
+      return items.map((item) => coerceComplex(item, field, collectionDelimiter));
+    }
+    return items.map((item) => coerceScalar(item, inner));
+  }
+
+  if (field.type === "Edm.ComplexType") return coerceComplex(value, field, collectionDelimiter);
+  return coerceScalar(value, field.type);
+}
+
+function coerceComplex(value: unknown, field: FieldDef, collectionDelimiter: string): Record<string, unknown> {
+  let v = value;
+  if (typeof v === "string") {
+    try {
+      v = JSON.parse(v);
+    } catch {
+      throw new CoercionError("expected a JSON object");
+    }
+  }
+  if (!v || typeof v !== "object" || Array.isArray(v)) throw new CoercionError("expected an object");
+  const subFields = new Map((field.fields || []).map((f) => [f.name, f]));
+  const out: Record<string, unknown> = {};
+  for (const [k, sub] of Object.entries(v as Record<string, unknown>)) {
+    const def = subFields.get(k);
+    if (!def) throw new CoercionError(`sub-field '${k}' is not defined`);
+    out[k] = coerceValue(sub, def, collectionDelimiter);
+  }
+  return out;
+}
+
+/**
+ * Coerce every row to the index schema. Rows with any error are excluded from `documents` and
+ * reported individually; unknown columns and missing keys are reported as errors too.
+ */
+export function coerceDocuments(
+  rows: ImportRow[],
+  fields: FieldDef[],
+  keyField: string,
+  options: { collectionDelimiter?: string; ignoreUnknownFields?: boolean } = {},
+): { documents: Record<string, unknown>[]; errors: RowError[]; invalidRows: number } {
+  const byName = new Map(fields.map((f) => [f.name, f]));
+  const delimiter = options.collectionDelimiter ?? ";";
+  const documents: Record<string, unknown>[] = [];
+  const errors: RowError[] = [];
+  let invalidRows = 0;
+
+  rows.forEach(({ row: rowNumber, values }) => {
+    const doc: Record<string, unknown> = {};
+    const rowErrors: RowError[] = [];
+
+    for (const [name, value] of Object.entries(values)) {
+      if (name === "@search.action") {
+        doc[name] = value;
+        continue;
+      }
+      const field = byName.get(name);
+      if (!field) {
+        if (!options.ignoreUnknownFields) rowErrors.push({ row: rowNumber, field: name, message: "Field is not defined in the index" });
+        continue;
+      }
+      try {
+        doc[name] = coerceValue(value, field, delimiter);
+      } catch (e: any) {
+        rowErrors.push({ row: rowNumber, field: name, value, message: `${field.type}: ${e?.message ?? String(e)}` });
+      }
+    }
+
+    const key = doc[keyField];
+    if (key === undefined || key === null || key === "") {
+      rowErrors.push({ row: rowNumber, field: keyField, message: "Missing document key" });
+    }
+
+    if (rowErrors.length > 0) {
+      invalidRows++;
+      errors.push(...rowErrors);
+    } else {
+      documents.push(doc);
+    }
+  });
+
+  return { documents, errors, invalidRows };
+}
+
+/** Fetch an import payload over HTTP(S), refusing other schemes and oversized bodies. */
+export async function fetchImportPayload(url: string, maxBytes: number): Promise<string> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid URL: ${url}`);
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    throw new Error(`Unsupported URL scheme '${parsed.protocol}'; only http and https are allowed`);
+  }
+
+  const response = await fetch(parsed.toString());
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${parsed.origin}${parsed.pathname}: HTTP ${response.status}`);
+  }
+  const declared = Number(response.headers.get("content-length"));
+  if (Number.isFinite(declared) && declared > maxBytes) {
+    throw new Error(`Payload is ${declared} bytes; the import limit is ${maxBytes} bytes`);
+  }
+  if (!response.body) return "";
+
+  // Chunked responses have no Content-Length, so count bytes as they arrive and stop at the limit
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Payload exceeds the import limit of ${maxBytes} bytes`);
+    }
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(bytes);
+}
@@ -0,0 +1,309 @@
+// src/utils/index-diff.ts
+/**
+ * Compare a proposed index definition with the live one and classify each change by what Azure AI
+ * Search will require to apply it. Mirrors the service's update rules so breaking changes are
+ * caught before createOrUpdateIndex rather than rejected with ERR_DOWNTIME_REQUIRED.
+ */
+
+export type ChangeImpact = "additive" | "inPlace" | "requiresDowntime" | "requiresRebuild";
+
+export interface IndexChange {
+  path: string; // e.g. "fields.title.analyzer", "scoringProfiles.boost"
+  kind: "added" | "removed" | "modified";
+  impact: ChangeImpact;
+  before?: unknown;
+  after?: unknown;
+  reason: string;
+}
+
+export interface IndexDiff {
+  indexName: string;
+  impact: ChangeImpact | "none";
+  changes: IndexChange[];
+  counts: Record<ChangeImpact, number>;
+  recommendation: string;
+}
+
+const IMPACT_ORDER: ChangeImpact[] = ["additive", "inPlace", "requiresDowntime", "requiresRebuild"];
+
+// Field attributes the service lets you change on an existing field
+const IN_PLACE_FIELD_ATTRIBUTES = new Set(["retrievable", "searchAnalyzer", "synonymMaps"]);
+
+// Field attributes that are fixed once the field exists
+const REBUILD_FIELD_ATTRIBUTES = [
+  "type",
+  "key",
+  "searchable",
+  "filterable",
+  "sortable",
+  "facetable",
+  "stored",
+  "analyzer",
+  "indexAnalyzer",
+  "normalizer",
+  "dimensions",
+  "vectorSearchProfile",
+  "vectorEncoding",
+];
+
+// Text analysis components: adding or changing one takes the index offline
+const ANALYSIS_COLLECTIONS = ["analyzers", "tokenizers", "tokenFilters", "charFilters", "normalizers"];
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const isEmpty = (v: unknown) => v === undefined || v === null || (Array.isArray(v) && v.length === 0);
+
+/**
+ * True when the live item already has every value the proposal sets. The GET fills in service
+ * defaults (`charFilters: []`, `k1: null`), so keys the proposal leaves out are not compared, and
+ * null, missing and empty arrays count as the same default.
+ */
+function matchesProposed(live: unknown, proposed: unknown): boolean {
+  if (isEmpty(proposed)) return isEmpty(live);
+  if (Array.isArray(proposed)) {
+    return Array.isArray(live) && live.length === proposed.length && proposed.every((p, i) => matchesProposed(live[i], p));
+  }
+  if (proposed && typeof proposed === "object") {
+    if (!live || typeof live !== "object" || Array.isArray(live)) return false;
+    return Object.entries(proposed).every(([k, v]) => v === undefined || matchesProposed((live as any)[k], v));
+  }
+  return live === proposed;
+}
+
+const byName = (items: any[] | undefined) => new Map<string, any>((items || []).map((i: any) => [i?.name, i]));
+
+function diffFields(current: any[], proposed: any[], prefix: string, changes: IndexChange[]) {
+  const before = byName(current);
+  const after = byName(proposed);
+
+  for (const [name, field] of after) {
+    const path = `${prefix}.${name}`;
+    const existing = before.get(name);
+    if (!existing) {
+      changes.push({ path, kind: "added", impact: "additive", after: field, reason: "New fields can be added at any time" });
+      continue;
+    }
+
+    for (const attr of REBUILD_FIELD_ATTRIBUTES) {
+      if (field[attr] !== undefined && !same(existing[attr], field[attr])) {
+        changes.push({
+          path: `${path}.${attr}`,
+          kind: "modified",
+          impact: "requiresRebuild",
+          before: existing[attr],
+          after: field[attr],
+          reason: `'${attr}' cannot be changed on an existing field; rebuild the index (or add a new field)`,
+        });
+      }
+    }
+    for (const attr of IN_PLACE_FIELD_ATTRIBUTES) {
+      if (field[attr] !== undefined && !same(existing[attr], field[attr])) {
+        changes.push({
+          path: `${path}.${attr}`,
+          kind: "modified",
+          impact: "inPlace",
+          before: existing[attr],
+          after: field[attr],
+          reason: `'${attr}' can be updated on an existing field`,
+        });
+      }
+    }
+
+    if (Array.isArray(existing.fields) || Array.isArray(field.fields)) {
+      diffFields(existing.fields || [], field.fields || [], path, changes);
+    }
+  }
+
+  for (const [name, field] of before) {
+    if (!after.has(name)) {
+      changes.push({
+        path: `${prefix}.${name}`,
+        kind: "removed",
+        impact: "requiresRebuild",
+        before: field,
+        reason: "Fields cannot be removed from an existing index",
+      });
+    }
+  }
+}
+
+function diffNamedCollection(
+  label: string,
+  current: any[] | undefined,
+  proposed: any[] | undefined,
+  impacts: { added: ChangeImpact; removed: ChangeImpact; modified: ChangeImpact },
+  reasons: { added: string; removed: string; modified: string },
+  changes: IndexChange[],
+) {
+  const before = byName(current);
+  const after = byName(proposed);
+  for (const [name, item] of after) {
+    const existing = before.get(name);
+    if (!existing) {
+      changes.push({ path: `${label}.${name}`, kind: "added", impact: impacts.added, after: item, reason: reasons.added });
+    } else if (!matchesProposed(existing, item)) {
+      changes.push({ path: `${label}.${name}`, kind: "modified", impact: impacts.modified, before: existing, after: item, reason: reasons.modified });
+    }
+  }
+  for (const [name, item] of before) {
+    if (!after.has(name)) {
+      changes.push({ path: `${label}.${name}`, kind: "removed", impact: impacts.removed, before: item, reason: reasons.removed });
+    }
+  }
+}
+
+function recommendationFor(impact: ChangeImpact | "none"): string {
+  switch (impact) {
+    case "none":
+      return "No changes detected.";
+    case "additive":
+    case "inPlace":
+      return "Safe to apply with createOrUpdateIndex.";
+    case "requiresDowntime":
+      return "Apply with allowIndexDowntime=true; the index is offline for queries and indexing for a few seconds or longer.";
+    case "requiresRebuild":
+      return "The service will reject this update. Create a new index with the proposed definition, copy or reindex the data (copyDocuments), then repoint an alias (swapAlias).";
+  }
+}
+
+export function diffIndexDefinitions(current: any, proposed: any): IndexDiff {
+  const changes: IndexChange[] = [];
+
+  if (Array.isArray(proposed?.fields)) {
+    diffFields(current?.fields || [], proposed.fields, "fields", changes);
+  }
+
+  // Suggesters can only reference fields that are new in the same update
+  if (proposed?.suggesters !== undefined) {
+    const existingFieldNames = new Set((current?.fields || []).map((f: any) => f.name));
+    const before = byName(current?.suggesters);
+    for (const [name, sg] of byName(proposed.suggesters)) {
+      const existing = before.get(name);
+      if (existing && same(existing, sg)) continue;
+      const onExisting = (sg?.sourceFields || []).filter((f: string) => existingFieldNames.has(f));
+      changes.push({
+        path: `suggesters.${name}`,
+        kind: existing ? "modified" : "added",
+        impact: existing || onExisting.length > 0 ? "requiresRebuild" : "additive",
+        before: existing,
+        after: sg,
+        reason:
+          existing || onExisting.length > 0
+            ? "Suggesters can only be added together with new source fields"
+            : "Suggester over new fields can be added",
+      });
+    }
+    for (const [name, sg] of before) {
+      if (!byName(proposed.suggesters).has(name)) {
+        changes.push({ path: `suggesters.${name}`, kind: "removed", impact: "inPlace", before: sg, reason: "Suggesters can be removed" });
+      }
+    }
+  }
+
+  if (proposed?.scoringProfiles !== undefined) {
+    diffNamedCollection(
+      "scoringProfiles",
+      current?.scoringProfiles,
+      proposed.scoringProfiles,
+      { added: "additive", removed: "inPlace", modified: "inPlace" },
+      { added: "Scoring profiles can be added", removed: "Scoring profiles can be removed", modified: "Scoring profiles can be updated" },
+      changes,
+    );
+  }
+
+  for (const collection of ANALYSIS_COLLECTIONS) {
+    if (proposed?.[collection] === undefined) continue;
+    diffNamedCollection(
+      collection,
+      current?.[collection],
+      proposed[collection],
+      { added: "requiresDowntime", removed: "requiresDowntime", modified: "requiresDowntime" },
+      {
+        added: "Adding analysis components to an existing index requires allowIndexDowntime",
+        removed: "Removing analysis components requires allowIndexDowntime (and fails if a field still uses it)",
+        modified: "Changing analysis components requires allowIndexDowntime",
+      },
+      changes,
+    );
+  }
+
+  if (proposed?.semantic !== undefined) {
+    diffNamedCollection(
+      "semantic.configurations",
+      current?.semantic?.configurations,
+      proposed?.semantic?.configurations,
+      { added: "additive", removed: "inPlace", modified: "inPlace" },
+      {
+        added: "Semantic configurations can be added",
+        removed: "Semantic configurations can be removed",
+        modified: "Semantic configurations can be updated",
+      },
+      changes,
+    );
+  }
+
+  if (proposed?.vectorSearch !== undefined) {
+    const usedProfiles = new Set((current?.fields || []).map((f: any) => f.vectorSearchProfile).filter(Boolean));
+    for (const part of ["algorithms", "profiles", "vectorizers", "compressions"]) {
+      const before = byName(current?.vectorSearch?.[part]);
+      const after = byName(proposed.vectorSearch?.[part]);
+      for (const [name, item] of after) {
+        const existing = before.get(name);
+        if (!existing) {
+          changes.push({ path: `vectorSearch.${part}.${name}`, kind: "added", impact: "additive", after: item, reason: "Vector search configuration can be added" });
+        } else if (!matchesProposed(existing, item)) {
+          changes.push({
+            path: `vectorSearch.${part}.${name}`,
+            kind: "modified",
+            impact: part === "compressions" ? "requiresRebuild" : "inPlace",
+            before: existing,
+            after: item,
+            reason: part === "compressions" ? "Compression settings of existing vector data cannot be changed" : "Vector search configuration can be updated",
+          });
+        }
+      }
+      for (const [name, item] of before) {
+        if (after.has(name)) continue;
+        const inUse = part === "profiles" && usedProfiles.has(name);
+        changes.push({
+          path: `vectorSearch.${part}.${name}`,
+          kind: "removed",
+          impact: inUse ? "requiresRebuild" : "inPlace",
+          before: item,
+          reason: inUse ? "Vector profile is still referenced by a field" : "Unused vector search configuration can be removed",
+        });
+      }
+    }
+  }
+
+  for (const prop of ["defaultScoringProfile", "corsOptions", "encryptionKey"]) {
+    if (proposed?.[prop] !== undefined && !same(current?.[prop], proposed[prop])) {
+      changes.push({ path: prop, kind: "modified", impact: "inPlace", before: current?.[prop], after: proposed[prop], reason: `'${prop}' can be updated` });
+    }
+  }
+  if (proposed?.similarity !== undefined && !matchesProposed(current?.similarity, proposed.similarity)) {
+    changes.push({
+      path: "similarity",
+      kind: "modified",
+      impact: "requiresRebuild",
+      before: current?.similarity,
+      after: proposed.similarity,
+      reason: "The similarity algorithm cannot be changed on an existing index",
+    });
+  }
+
+  const counts = { additive: 0, inPlace: 0, requiresDowntime: 0, requiresRebuild: 0 } as Record<ChangeImpact, number>;
+  changes.forEach((c) => counts[c.impact]++);
+  const impact = changes.reduce<ChangeImpact | "none">(
+    (worst, c) => (worst === "none" || IMPACT_ORDER.indexOf(c.impact) > IMPACT_ORDER.indexOf(worst) ? c.impact : worst),
+    "none",
+  );
+
+  return {
+    indexName: proposed?.name ?? current?.name,
+    impact,
+    changes,
+    counts,
+    recommendation: recommendationFor(impact),
+  };
+}
@@ -0,0 +1,293 @@
+// src/utils/indexer-builder.ts
+/**
+ * Build general indexer definitions and validate them against the live target index, data source
+ * and skillset: field mapping targets and mapping functions, source fields the data source type can
+ * produce, and output field mappings against the outputs the skillset's skills declare.
+ */
+
+export const MAPPING_FUNCTIONS = [
+  "base64Encode",
+  "base64Decode",
+  "extractTokenAtPosition",
+  "jsonArrayToStringCollection",
+  "urlEncode",
+  "urlDecode",
+  "fixedLengthEncode",
+] as const;
+
+export type MappingFunctionName = (typeof MAPPING_FUNCTIONS)[number];
+
+export interface MappingFunction {
+  name: MappingFunctionName;
+  parameters?: Record<string, unknown>;
+}
+
+export interface FieldMapping {
+  sourceFieldName: string;
+  targetFieldName: string;
+  mappingFunction?: MappingFunction | null;
+}
+
+interface MappingFunctionRule {
+  parameters: Record<string, "string" | "number" | "boolean">;
+  required?: string[];
+  // Target field type the function produces
+  targetType: string;
+}
+
+const MAPPING_FUNCTION_RULES: Record<MappingFunctionName, MappingFunctionRule> = {
+  base64Encode: { parameters: { useHttpServerUtilityUrlTokenEncode: "boolean" }, targetType: "Edm.String" },
+  base64Decode: { parameters: { useHttpServerUtilityUrlTokenDecode: "boolean" }, targetType: "Edm.String" },
+  extractTokenAtPosition: { parameters: { delimiter: "string", position: "number" }, required: ["delimiter", "position"], targetType: "Edm.String" },
+  jsonArrayToStringCollection: { parameters: {}, targetType: "Collection(Edm.String)" },
+  urlEncode: { parameters: {}, targetType: "Edm.String" },
+  urlDecode: { parameters: {}, targetType: "Edm.String" },
+  fixedLengthEncode: { parameters: {}, targetType: "Edm.String" },
+};
+
+// Source fields only blob-based sources produce from document cracking
+const BLOB_SOURCE_TYPES = ["azureblob", "adlsgen2", "azurefile", "onelake"];
+const BLOB_ONLY_SOURCE_FIELD = /^metadata_/;
+
+// Enrichment tree nodes document cracking creates before any skill runs
+const BUILT_IN_ENRICHMENT_NODES = ["/document/content", "/document/normalized_images", "/document/metadata_"];
+
+/** Check a mapping function's name and parameters, and that the target field has the type it produces. */
+function validateMappingFunction(mapping: FieldMapping, targetType: string | undefined): string[] {
+  const fn = mapping.mappingFunction;
+  if (!fn) return [];
+  const rule = MAPPING_FUNCTION_RULES[fn.name];
+  const label = `fieldMappings '${mapping.sourceFieldName}' -> '${mapping.targetFieldName}'`;
+  if (!rule) return [`${label}: unknown mapping function '${fn.name}'. Known: ${MAPPING_FUNCTIONS.join(", ")}`];
+
+  const errors: string[] = [];
+  const parameters = fn.parameters ?? {};
+  for (const [key, value] of Object.entries(parameters)) {
+    const expected = rule.parameters[key];
+    if (!expected) {
+      const allowed = Object.keys(rule.parameters);
+      errors.push(`${label}: ${fn.name} has no parameter '${key}'${allowed.length ? `. Allowed: ${allowed.join(", ")}` : " (it takes none)"}`);
+    } else if (typeof value !== expected) {
+      errors.push(`${label}: ${fn.name} parameter '${key}' must be a ${expected}`);
+    }
+  }
+  for (const key of rule.required ?? []) {
+    if (parameters[key] === undefined) errors.push(`${label}: ${fn.name} needs parameter '${key}'`);
+  }
+  if (fn.name === "extractTokenAtPosition" && typeof parameters.position === "number" && (!Number.isInteger(parameters.position) || parameters.position < 0)) {
+    errors.push(`${label}: extractTokenAtPosition position must be an integer >= 0`);
+  }
+  if (targetType && targetType !== rule.targetType) {
+    errors.push(`${label}: ${fn.name} produces ${rule.targetType} but the target field is ${targetType}`);
+  }
+  return errors;
+}
+
+/**
+ * Check field mappings against the target index's top-level fields and the data source type.
+ * Returns errors (the indexer would be rejected or fail) and warnings (it would likely misbehave).
+ */
+export function validateFieldMappings(
+  mappings: FieldMapping[],
+  index: any,
+  dataSource: any,
+): { errors: string[]; warnings: string[] } {
+  const fields = new Map<string, any>((index?.fields ?? []).map((f: any) => [f.name, f]));
+  const sourceType: string = dataSource?.type ?? "";
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const seenTargets = new Set<string>();
+
+  for (const mapping of mappings) {
+    const target = fields.get(mapping.targetFieldName);
+    if (!target) {
+      errors.push(`fieldMappings target '${mapping.targetFieldName}' is not a top-level field of index '${index?.name}'`);
+    }
+    if (seenTargets.has(mapping.targetFieldName)) {
+      errors.push(`fieldMappings target '${mapping.targetFieldName}' is mapped more than once`);
+    }
+    seenTargets.add(mapping.targetFieldName);
+
+    if (BLOB_ONLY_SOURCE_FIELD.test(mapping.sourceFieldName) && !BLOB_SOURCE_TYPES.includes(sourceType)) {
+      errors.push(`fieldMappings source '${mapping.sourceFieldName}' is blob metadata, which '${sourceType}' data sources do not produce`);
+    }
+    if (sourceType === "cosmosdb" && mapping.sourceFieldName.includes(".")) {
+      warnings.push(`fieldMappings source '${mapping.sourceFieldName}': Cosmos DB nested properties must be projected to top-level names in the data source query`);
+    }
+    errors.push(...validateMappingFunction(mapping, target?.type));
+
+    // Blob paths contain characters that are not valid in document keys
+    if (target?.key && mapping.sourceFieldName === "metadata_storage_path" && mapping.mappingFunction?.name !== "base64Encode") {
+      warnings.push(`Key field '${target.name}' is mapped from metadata_storage_path without base64Encode; paths with '/' or '.' are invalid keys`);
+    }
+  }
+  return { errors, warnings };
+}
+
+/** Enrichment tree paths the skillset's skills write, e.g. "/document/pages/*\/keyPhrases". */
+export function skillsetOutputPaths(skillset: any): string[] {
+  const paths: string[] = [];
+  for (const skill of skillset?.skills ?? []) {
+    const context: string = (skill.context ?? "/document").replace(/\/$/, "");
+    for (const output of skill.outputs ?? []) {
+      paths.push(`${context}/${output.targetName ?? output.name}`);
+    }
+  }
+  return paths;
+}
+
+// "/document/pages/*/keyPhrases/*" is produced by "/document/pages/*/keyPhrases"
+const producedBy = (source: string, output: string) => source === output || source.startsWith(`${output}/`);
+
+// "/document/title": a top-level node, which may be a source field the data source produces
+const TOP_LEVEL_NODE = /^\/document\/[^/]+$/;
+
+/**
+ * Check output field mappings against the skillset's declared outputs and the index's fields.
+ * Source fields also appear in the enrichment tree, but the data source does not declare them, so a
+ * top-level node no skill produces is only a warning.
+ */
+export function validateOutputFieldMappings(
+  mappings: FieldMapping[],
+  index: any,
+  skillset: any | null,
+): { errors: string[]; warnings: string[] } {
+  const fieldNames = new Set<string>((index?.fields ?? []).map((f: any) => f.name));
+  const outputs = skillset ? skillsetOutputPaths(skillset) : [];
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (mappings.length > 0 && !skillset) {
+    errors.push("outputFieldMappings need a skillsetName; without a skillset there is no enrichment tree to map from");
+  }
+  for (const mapping of mappings) {
+    if (!fieldNames.has(mapping.targetFieldName)) {
+      errors.push(`outputFieldMappings target '${mapping.targetFieldName}' is not a top-level field of index '${index?.name}'`);
+    }
+    if (!skillset) continue;
+    const source = mapping.sourceFieldName.replace(/\/$/, "");
+    if (!source.startsWith("/document")) {
+      errors.push(`outputFieldMappings source '${mapping.sourceFieldName}' must be an enrichment tree path starting with /document`);
+      continue;
+    }
+    const known = outputs.some((o) => producedBy(source, o)) || BUILT_IN_ENRICHMENT_NODES.some((n) => source.startsWith(n));
+    if (!known && TOP_LEVEL_NODE.test(source)) {
+      warnings.push(`outputFieldMappings source '${mapping.sourceFieldName}' is not a skill output; it must be a field the data source produces`);
+    } else if (!known) {
+      errors.push(
+        `outputFieldMappings source '${mapping.sourceFieldName}' is not an output of skillset '${skillset.name}'. Declared outputs: ${outputs.join(", ") || "none"}`,
+      );
+    }
+  }
+  return { errors, warnings };
+}
+
+const cleanMapping = (m: FieldMapping) => ({
+  sourceFieldName: m.sourceFieldName,
+  targetFieldName: m.targetFieldName,
+  ...(m.mappingFunction ? { mappingFunction: m.mappingFunction } : {}),
+});
+
+export interface IndexerOptions {
+  name: string;
+  dataSourceName: string;
+  targetIndexName: string;
+  skillsetName?: string;
+  description?: string;
+  scheduleInterval?: string | null; // null removes the schedule
+  scheduleStartTime?: string;
+  fieldMappings?: FieldMapping[];
+  outputFieldMappings?: FieldMapping[];
+  batchSize?: number;
+  maxFailedItems?: number;
+  maxFailedItemsPerBatch?: number;
+  configuration?: Record<string, unknown>;
+  disabled?: boolean;
+}
+
+/**
+ * Build an indexer definition, validating it against the live index, data source and skillset
+ * (null skillset when none is attached). `indexer` is the existing indexer, or null when creating;
+ * everything the options omit (mappings, description, schedule, parameters and configuration, disabled)
+ * is carried over from it with a warning. Throws "Validation failed" with every problem found; returns
+ * warnings that do not block the write.
+ */
+export function buildIndexer(opts: IndexerOptions, live: { index: any; dataSource: any; skillset: any | null; indexer: any | null }) {
+  const warnings: string[] = [];
+  // A PUT replaces the whole indexer, so omitting a mapping list would clear the existing mappings
+  const carryOver = (key: "fieldMappings" | "outputFieldMappings"): FieldMapping[] => {
+    if (opts[key] !== undefined) return opts[key]!;
+    const existing: FieldMapping[] = live.indexer?.[key] ?? [];
+    if (existing.length > 0) warnings.push(`${key} not given; keeping the indexer's ${existing.length} existing mapping(s). Pass [] to remove them`);
+    return existing;
+  };
+  const keep = <T>(given: T | undefined, existing: T | undefined, label: string, hint: string): T | undefined => {
+    if (given !== undefined || existing === undefined || existing === null) return given;
+    warnings.push(`${label} not given; keeping the indexer's existing value ${JSON.stringify(existing)}. ${hint}`);
+    return existing;
+  };
+  const fieldMappings = carryOver("fieldMappings");
+  // Without a skillset there is nothing to map from, so existing output mappings go with it
+  const outputFieldMappings = live.skillset || opts.outputFieldMappings !== undefined ? carryOver("outputFieldMappings") : [];
+  if (!live.skillset && opts.outputFieldMappings === undefined && live.indexer?.outputFieldMappings?.length) {
+    warnings.push("No skillsetName given; the indexer's existing outputFieldMappings are removed with its skillset");
+  }
+  const fieldCheck = validateFieldMappings(fieldMappings, live.index, live.dataSource);
+  const outputCheck = validateOutputFieldMappings(outputFieldMappings, live.index, live.skillset);
+  const errors = [...fieldCheck.errors, ...outputCheck.errors];
+  warnings.push(...fieldCheck.warnings, ...outputCheck.warnings);
+
+  // Like the mappings, a PUT would reset every other property the options leave out
+  const existingParams = live.indexer?.parameters ?? {};
+  const existingConfig =
+    existingParams.configuration && Object.keys(existingParams.configuration).length > 0 ? existingParams.configuration : undefined;
+  const description = keep(opts.description, live.indexer?.description, "description", "Pass a new description to change it");
+  const schedule =
+    opts.scheduleInterval === null
+      ? undefined
+      : opts.scheduleInterval
+        ? { interval: opts.scheduleInterval, startTime: opts.scheduleStartTime }
+        : keep(undefined, live.indexer?.schedule, "scheduleInterval", "Pass scheduleInterval: null to remove the schedule");
+  const batchSize = keep(opts.batchSize, existingParams.batchSize, "batchSize", "Pass batchSize to change it");
+  const maxFailedItems = keep(opts.maxFailedItems, existingParams.maxFailedItems, "maxFailedItems", "Pass maxFailedItems to change it");
+  const maxFailedItemsPerBatch = keep(
+    opts.maxFailedItemsPerBatch,
+    existingParams.maxFailedItemsPerBatch,
+    "maxFailedItemsPerBatch",
+    "Pass maxFailedItemsPerBatch to change it",
+  );
+  const configuration = keep(opts.configuration, existingConfig, "configuration", "Pass {} to clear it");
+  const disabled = keep(opts.disabled, live.indexer?.disabled, "disabled", "Pass disabled to change it");
+
+  if (configuration && Object.keys(configuration).length > 0 && !BLOB_SOURCE_TYPES.includes(live.dataSource?.type)) {
+    const blobOnly = ["parsingMode", "dataToExtract", "imageAction", "indexedFileNameExtensions", "excludedFileNameExtensions"].filter(
+      (k) => k in configuration,
+    );
+    if (blobOnly.length > 0) errors.push(`configuration ${blobOnly.join(", ")} only apply to blob-based data sources, not ${live.dataSource?.type}`);
+  }
+  if (maxFailedItems !== undefined && maxFailedItemsPerBatch !== undefined && maxFailedItems >= 0 && maxFailedItemsPerBatch > maxFailedItems) {
+    errors.push("maxFailedItemsPerBatch cannot exceed maxFailedItems");
+  }
+  if (errors.length > 0) throw new Error(`Validation failed:\n${errors.join("\n")}`);
+
+  const parameters: Record<string, unknown> = {};
+  if (batchSize !== undefined) parameters.batchSize = batchSize;
+  if (maxFailedItems !== undefined) parameters.maxFailedItems = maxFailedItems;
+  if (maxFailedItemsPerBatch !== undefined) parameters.maxFailedItemsPerBatch = maxFailedItemsPerBatch;
+  if (configuration && Object.keys(configuration).length > 0) parameters.configuration = configuration;
+
+  const definition: any = {
+    name: opts.name,
+    description,
+    dataSourceName: opts.dataSourceName,
+    targetIndexName: opts.targetIndexName,
+    skillsetName: opts.skillsetName,
+    schedule,
+    parameters: Object.keys(parameters).length > 0 ? parameters : undefined,
+    disabled,
+    fieldMappings: fieldMappings.map(cleanMapping),
+    outputFieldMappings: outputFieldMappings.map(cleanMapping),
+  };
+
+  return { definition, warnings };
+}
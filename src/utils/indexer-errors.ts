@@ -0,0 +1,198 @@
+// src/utils/indexer-errors.ts
+/**
+ * Group indexer execution errors and warnings by skill, normalized message and document key pattern,
+ * and link each group to its likely root cause and fix.
+ */
+
+export type IssueCause =
+  | "documentTooLarge"
+  | "skillTimeout"
+  | "throttling"
+  | "vectorDimensionMismatch"
+  | "badMapping"
+  | "invalidDocumentKey"
+  | "missingSkillInput"
+  | "unprocessableDocument"
+  | "truncatedContent"
+  | "unknown";
+
+interface CauseRule {
+  cause: IssueCause;
+  pattern: RegExp;
+  fix: string;
+}
+
+// First match wins, so the more specific patterns come first
+const CAUSE_RULES: CauseRule[] = [
+  {
+    cause: "vectorDimensionMismatch",
+    pattern: /dimension/i,
+    fix: "Make the vector field's dimensions match the embedding skill's output (e.g. 1536 for text-embedding-ada-002 and text-embedding-3-small, 3072 for text-embedding-3-large), or set the skill's dimensions parameter",
+  },
+  {
+    cause: "truncatedContent",
+    pattern: /truncated extracted text/i,
+    fix: "Extraction stopped at the tier's character limit; split large documents upstream or move to a tier with a higher limit if the tail matters",
+  },
+  {
+    cause: "documentTooLarge",
+    pattern: /too large|exceeds the maximum|maximum (allowed )?(document |request |blob )?size|request entity too large|\b413\b/i,
+    fix: "Set indexStorageMetadataOnlyForOversizedDocuments=true in the indexer configuration, chunk content with a SplitSkill before enrichment, or exclude the files by extension",
+  },
+  {
+    cause: "skillTimeout",
+    pattern: /timed? ?out|timeout|did not respond/i,
+    fix: "Raise the skill's timeout (up to PT230S), lower the indexer's batchSize or the custom skill's batchSize/degreeOfParallelism, and check the skill endpoint's latency",
+  },
+  {
+    cause: "throttling",
+    pattern: /throttl|\b429\b|too many requests|rate limit|quota/i,
+    fix: "The skill's backing service is rate limited: attach a billable Azure AI services resource to the skillset, raise the model deployment's quota, or lower batchSize and degreeOfParallelism",
+  },
+  {
+    cause: "invalidDocumentKey",
+    pattern: /document key|invalid key|key field/i,
+    fix: "Keys may only contain letters, digits, '_', '-' and '='; map the key with the base64Encode mapping function (createOrUpdateIndexer)",
+  },
+  {
+    cause: "badMapping",
+    pattern: /field ?mapping|mapping function|output field|not (found|present) in the index|does not exist|could not (map|convert)|cannot convert|type mismatch|invalid (value|type) for field|incompatible/i,
+    fix: "Check fieldMappings and outputFieldMappings with createOrUpdateIndexer, which validates targets against the index's fields and sources against the skillset's outputs",
+  },
+  {
+    cause: "missingSkillInput",
+    pattern: /missing (required )?(skill )?input|input .* (is )?(missing|null|empty)|could not execute skill because/i,
+    fix: "A skill input path resolved to nothing for these documents; check the input's source path and context, or guard the skill with a ConditionalSkill",
+  },
+  {
+    cause: "unprocessableDocument",
+    pattern: /could not (parse|extract|read)|unable to (parse|extract)|corrupt|password[- ]protected|encrypted|unsupported (format|content type)/i,
+    fix: "Set failOnUnprocessableDocument=false and failOnUnsupportedContentType=false in the indexer configuration, or exclude the file types with excludedFileNameExtensions",
+  },
+];
+
+export interface IndexerIssue {
+  key?: string | null;
+  name?: string | null; // component that reported it, e.g. "Enrichment.SplitSkill.#1"
+  errorMessage?: string | null;
+  message?: string | null; // warnings use `message`
+  statusCode?: number | null;
+  details?: string | null;
+  documentationLink?: string | null;
+}
+
+export interface IssueGroup {
+  cause: IssueCause;
+  component: string;
+  message: string;
+  keyPattern: string;
+  count: number;
+  runs: number; // runs the group appeared in
+  statusCodes: number[];
+  sampleKeys: string[];
+  sampleMessage: string;
+  fix: string | null;
+  documentationLink: string | null;
+}
+
+const MAX_MESSAGE_LENGTH = 300;
+
+/** Replace the parts of a message that vary per document so the same problem groups together. */
+export function normalizeMessage(message: string): string {
+  return message
+    .replace(/https?:\/\/[^\s'"]+/gi, "<url>")
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, "<guid>")
+    .replace(/'[^']*'|"[^"]*"/g, "'<value>'")
+    .replace(/\b\d+(\.\d+)?\b/g, "<n>")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_MESSAGE_LENGTH);
+}
+
+/**
+ * Pattern of the failing document keys: for blob keys ("localId=<url>&documentKey=...") the folder and
+ * extension ("account.blob.core.windows.net/docs/reports/*.pdf"), otherwise the key with digits and GUIDs masked.
+ */
+export function keyPattern(key: string | null | undefined): string {
+  if (!key) return "(no key)";
+  const localId = /(?:^|&)localId=([^&]+)/.exec(key)?.[1];
+  const raw = localId ? safeDecode(localId) : key;
+  try {
+    const url = new URL(raw);
+    const segments = url.pathname.split("/").filter(Boolean);
+    const file = segments.pop() ?? "";
+    const ext = /\.[a-z0-9]{1,8}$/i.exec(file)?.[0] ?? "";
+    return `${url.host}/${[...segments, `*${ext.toLowerCase()}`].join("/")}`;
+  } catch {
+    return raw.replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, "<guid>").replace(/\d+/g, "#");
+  }
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+export function classifyIssue(issue: IndexerIssue): { cause: IssueCause; fix: string | null } {
+  const text = `${issue.errorMessage ?? issue.message ?? ""} ${issue.details ?? ""}`;
+  const rule = CAUSE_RULES.find((r) => r.pattern.test(text));
+  return rule ? { cause: rule.cause, fix: rule.fix } : { cause: "unknown", fix: null };
+}
+
+/**
+ * Group issues from several runs by component, normalized message and key pattern, most frequent first.
+ * `runs` holds each run's errors or warnings array.
+ */
+export function groupIssues(runs: IndexerIssue[][], sampleSize = 3): IssueGroup[] {
+  const groups = new Map<string, IssueGroup & { runIndexes: Set<number> }>();
+  runs.forEach((issues, runIndex) => {
+    for (const issue of issues ?? []) {
+      const text = issue.errorMessage ?? issue.message ?? "";
+      const component = issue.name || "(indexer)";
+      const message = normalizeMessage(text);
+      const pattern = keyPattern(issue.key);
+      const id = `${component}\u0000${message}\u0000${pattern}`;
+      let group = groups.get(id);
+      if (!group) {
+        const { cause, fix } = classifyIssue(issue);
+        group = {
+          cause,
+          component,
+          message,
+          keyPattern: pattern,
+          count: 0,
+          runs: 0,
+          statusCodes: [],
+          sampleKeys: [],
+          sampleMessage: text.slice(0, MAX_MESSAGE_LENGTH),
+          fix,
+          documentationLink: issue.documentationLink ?? null,
+          runIndexes: new Set(),
+        };
+        groups.set(id, group);
+      }
+      group.count += 1;
+      group.runIndexes.add(runIndex);
+      if (typeof issue.statusCode === "number" && !group.statusCodes.includes(issue.statusCode)) group.statusCodes.push(issue.statusCode);
+      if (issue.key && group.sampleKeys.length < sampleSize && !group.sampleKeys.includes(issue.key)) group.sampleKeys.push(issue.key);
+    }
+  });
+  return [...groups.values()]
+    .map(({ runIndexes, ...g }) => ({ ...g, runs: runIndexes.size }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/** Issue counts per root cause across groups, most frequent first. */
+export function summarizeCauses(groups: IssueGroup[]): Array<{ cause: IssueCause; count: number; groups: number; fix: string | null }> {
+  const byCause = new Map<IssueCause, { cause: IssueCause; count: number; groups: number; fix: string | null }>();
+  for (const g of groups) {
+    const entry = byCause.get(g.cause) ?? { cause: g.cause, count: 0, groups: 0, fix: g.fix };
+    entry.count += g.count;
+    entry.groups += 1;
+    byCause.set(g.cause, entry);
+  }
+  return [...byCause.values()].sort((a, b) => b.count - a.count);
+}
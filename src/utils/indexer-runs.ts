@@ -0,0 +1,161 @@
+// src/utils/indexer-runs.ts
+/**
+ * Completed indexer executions, one row per run (service endpoint, indexer and start time), kept in the
+ * shared IndexerRunLog Durable Object (or this session's SQLite storage when it is not bound) so run
+ * outcomes outlive the service's own execution history. Runs are recorded whenever a status tool or
+ * watch reads an indexer's status.
+ */
+import type { SqlExecutor } from "../types";
+
+export interface IndexerRun {
+  endpoint: string;
+  indexer: string;
+  startTime: string;
+  endTime: string | null;
+  status: string;
+  itemsProcessed: number;
+  itemsFailed: number;
+  errorCount: number;
+  warningCount: number;
+  errorMessage: string | null;
+  recordedAt: string;
+}
+
+type RunRow = {
+  endpoint: string;
+  indexer: string;
+  start_time: string;
+  end_time: string | null;
+  status: string;
+  items_processed: number;
+  items_failed: number;
+  error_count: number;
+  warning_count: number;
+  error_message: string | null;
+  recorded_at: string;
+};
+
+const FAILED_RUN_STATUSES = ["transientFailure", "persistentFailure"];
+
+/** A run is finished once the service reports anything other than inProgress. */
+export const isFinishedRun = (execution: any): boolean => !!execution?.startTime && !!execution.status && execution.status !== "inProgress";
+
+export const isFailedRun = (execution: { status?: string }): boolean => FAILED_RUN_STATUSES.includes(execution?.status ?? "");
+
+/** Shape an entry of the service's executionHistory (or lastResult) for storage. */
+export function toIndexerRun(endpoint: string, indexer: string, execution: any): IndexerRun {
+  return {
+    endpoint,
+    indexer,
+    startTime: execution.startTime,
+    endTime: execution.endTime ?? null,
+    status: execution.status,
+    itemsProcessed: Number(execution.itemsProcessed ?? execution.itemCount ?? 0),
+    itemsFailed: Number(execution.itemsFailed ?? execution.failedItemCount ?? 0),
+    errorCount: Array.isArray(execution.errors) ? execution.errors.length : 0,
+    warningCount: Array.isArray(execution.warnings) ? execution.warnings.length : 0,
+    errorMessage: execution.errorMessage ?? null,
+    recordedAt: new Date().toISOString(),
+  };
+}
+
+/** Finished runs in an indexer status response (executionHistory, else lastResult), newest first. */
+export function finishedRuns(endpoint: string, indexer: string, status: any): IndexerRun[] {
+  const history: any[] = status?.executionHistory?.length ? status.executionHistory : status?.lastResult ? [status.lastResult] : [];
+  return history
+    .filter(isFinishedRun)
+    .map((e) => toIndexerRun(endpoint, indexer, e))
+    .sort((a, b) => Date.parse(b.startTime) - Date.parse(a.startTime));
+}
+
+export interface IndexerRunBackend {
+  record(run: IndexerRun): Promise<boolean> | boolean;
+  recordStatus(endpoint: string, indexer: string, status: any): Promise<IndexerRun[]> | IndexerRun[];
+  list(endpoint: string, indexer: string, limit?: number): Promise<IndexerRun[]> | IndexerRun[];
+  listSince(endpoint: string, indexer: string, since: string): Promise<IndexerRun[]> | IndexerRun[];
+  firstRecorded(endpoint: string, indexer: string): Promise<string | null> | string | null;
+}
+
+export class IndexerRunStore implements IndexerRunBackend {
+  private initialized = false;
+
+  constructor(private readonly sql: SqlExecutor) {}
+
+  private ensureTable() {
+    if (this.initialized) return;
+    this.sql`CREATE TABLE IF NOT EXISTS indexer_runs (
+      endpoint TEXT NOT NULL,
+      indexer TEXT NOT NULL,
+      start_time TEXT NOT NULL,
+      end_time TEXT,
+      status TEXT NOT NULL,
+      items_processed INTEGER NOT NULL,
+      items_failed INTEGER NOT NULL,
+      error_count INTEGER NOT NULL,
+      warning_count INTEGER NOT NULL,
+      error_message TEXT,
+      recorded_at TEXT NOT NULL,
+      PRIMARY KEY (endpoint, indexer, start_time)
+    )`;
+    this.initialized = true;
+  }
+
+  /** Store a finished run. Returns false when the run was already recorded. */
+  record(run: IndexerRun): boolean {
+    this.ensureTable();
+    const existing = this.sql<{ n: number }>`SELECT COUNT(*) AS n FROM indexer_runs
+      WHERE endpoint = ${run.endpoint} AND indexer = ${run.indexer} AND start_time = ${run.startTime}`[0];
+    if (existing && existing.n > 0) return false;
+    this.sql`INSERT INTO indexer_runs (endpoint, indexer, start_time, end_time, status, items_processed, items_failed,
+        error_count, warning_count, error_message, recorded_at)
+      VALUES (${run.endpoint}, ${run.indexer}, ${run.startTime}, ${run.endTime}, ${run.status}, ${run.itemsProcessed},
+        ${run.itemsFailed}, ${run.errorCount}, ${run.warningCount}, ${run.errorMessage}, ${run.recordedAt})`;
+    return true;
+  }
+
+  /** Record every finished run in a status response. Returns the runs not seen before. */
+  recordStatus(endpoint: string, indexer: string, status: any): IndexerRun[] {
+    return finishedRuns(endpoint, indexer, status).filter((run) => this.record(run));
+  }
+
+  /** Recorded runs of an indexer, newest first. */
+  list(endpoint: string, indexer: string, limit = 20): IndexerRun[] {
+    this.ensureTable();
+    const rows = this.sql<RunRow>`SELECT * FROM indexer_runs WHERE endpoint = ${endpoint} AND indexer = ${indexer}
+      ORDER BY start_time DESC LIMIT ${limit}`;
+    return rows.map(toRun);
+  }
+
+  /** Recorded runs of an indexer that started at or after `since`, oldest first. */
+  listSince(endpoint: string, indexer: string, since: string): IndexerRun[] {
+    this.ensureTable();
+    const rows = this.sql<RunRow>`SELECT * FROM indexer_runs WHERE endpoint = ${endpoint} AND indexer = ${indexer}
+      AND start_time >= ${since} ORDER BY start_time`;
+    return rows.map(toRun);
+  }
+
+  /** Start time of the oldest recorded run, or null when none are recorded. */
+  firstRecorded(endpoint: string, indexer: string): string | null {
+    this.ensureTable();
+    return (
+      this.sql<{ first: string | null }>`SELECT MIN(start_time) AS first FROM indexer_runs
+        WHERE endpoint = ${endpoint} AND indexer = ${indexer}`[0]?.first ?? null
+    );
+  }
+}
+
+function toRun(r: RunRow): IndexerRun {
+  return {
+    endpoint: r.endpoint,
+    indexer: r.indexer,
+    startTime: r.start_time,
+    endTime: r.end_time,
+    status: r.status,
+    itemsProcessed: r.items_processed,
+    itemsFailed: r.items_failed,
+    errorCount: r.error_count,
+    warningCount: r.warning_count,
+    errorMessage: r.error_message,
+    recordedAt: r.recorded_at,
+  };
+}
@@ -0,0 +1,174 @@
+// src/utils/indexer-trends.ts
+/**
+ * Trend statistics over recorded indexer runs: throughput, failure rate and duration percentiles per
+ * day or week, and regressions of the latest period against the rest of the window.
+ */
+import { TREND_REGRESSION_THRESHOLDS } from "../constants";
+import { isFailedRun, type IndexerRun } from "./indexer-runs";
+
+export type TrendBucket = "day" | "week";
+
+export interface RunStats {
+  runs: number;
+  failedRuns: number;
+  failureRate: number | null;
+  itemsProcessed: number;
+  itemsFailed: number;
+  itemFailureRate: number | null;
+  docsPerMinute: number | null; // items processed over total run time
+  durationSeconds: { p50: number | null; p90: number | null; p95: number | null; max: number | null };
+}
+
+export interface TrendRegression {
+  metric: "docsPerMinute" | "durationP95" | "failureRate";
+  baseline: number;
+  recent: number;
+  change: number; // percent for docsPerMinute and durationP95, points for failureRate
+  message: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (n: number, digits = 2) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+const durationMs = (run: IndexerRun): number | null => {
+  if (!run.endTime) return null;
+  const ms = Date.parse(run.endTime) - Date.parse(run.startTime);
+  return Number.isFinite(ms) && ms >= 0 ? ms : null;
+};
+
+/** Nearest-rank percentile of sorted values. */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+export function computeRunStats(runs: IndexerRun[]): RunStats {
+  const durations = runs
+    .map(durationMs)
+    .filter((d): d is number => d !== null)
+    .sort((a, b) => a - b);
+  const failedRuns = runs.filter(isFailedRun).length;
+  const itemsProcessed = runs.reduce((n, r) => n + r.itemsProcessed, 0);
+  const itemsFailed = runs.reduce((n, r) => n + r.itemsFailed, 0);
+  // Throughput only counts runs with a known duration, so items and minutes cover the same runs
+  const timed = runs.filter((r) => durationMs(r) !== null);
+  const timedMinutes = timed.reduce((n, r) => n + durationMs(r)!, 0) / 60_000;
+  const timedItems = timed.reduce((n, r) => n + r.itemsProcessed, 0);
+  const seconds = (ms: number | null) => (ms === null ? null : round(ms / 1000, 1));
+
+  return {
+    runs: runs.length,
+    failedRuns,
+    failureRate: runs.length > 0 ? round(failedRuns / runs.length, 3) : null,
+    itemsProcessed,
+    itemsFailed,
+    itemFailureRate: itemsProcessed + itemsFailed > 0 ? round(itemsFailed / (itemsProcessed + itemsFailed), 4) : null,
+    docsPerMinute: timedMinutes > 0 ? round(timedItems / timedMinutes) : null,
+    durationSeconds: {
+      p50: seconds(percentile(durations, 50)),
+      p90: seconds(percentile(durations, 90)),
+      p95: seconds(percentile(durations, 95)),
+      max: seconds(durations.length > 0 ? durations[durations.length - 1] : null),
+    },
+  };
+}
+
+/** UTC start of the day or ISO week (Monday) containing `time`. */
+export function bucketStart(time: string, bucket: TrendBucket): string {
+  const d = new Date(time);
+  d.setUTCHours(0, 0, 0, 0);
+  if (bucket === "week") d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return d.toISOString();
+}
+
+/** Compare the latest bucket with the earlier runs in the window. */
+export function findRegressions(baselineRuns: IndexerRun[], recentRuns: IndexerRun[]): TrendRegression[] {
+  const t = TREND_REGRESSION_THRESHOLDS;
+  if (baselineRuns.length < t.minBaselineRuns || recentRuns.length === 0) return [];
+  const baseline = computeRunStats(baselineRuns);
+  const recent = computeRunStats(recentRuns);
+  const regressions: TrendRegression[] = [];
+
+  if (baseline.docsPerMinute && recent.docsPerMinute !== null) {
+    const change = round(((recent.docsPerMinute - baseline.docsPerMinute) / baseline.docsPerMinute) * 100, 1);
+    if (change <= -t.throughputDropPct) {
+      regressions.push({
+        metric: "docsPerMinute",
+        baseline: baseline.docsPerMinute,
+        recent: recent.docsPerMinute,
+        change,
+        message: `Throughput fell ${Math.abs(change)}% (${baseline.docsPerMinute} -> ${recent.docsPerMinute} docs/min)`,
+      });
+    }
+  }
+  const baseP95 = baseline.durationSeconds.p95;
+  const recentP95 = recent.durationSeconds.p95;
+  if (baseP95 && recentP95 !== null) {
+    const change = round(((recentP95 - baseP95) / baseP95) * 100, 1);
+    if (change >= t.durationIncreasePct) {
+      regressions.push({
+        metric: "durationP95",
+        baseline: baseP95,
+        recent: recentP95,
+        change,
+        message: `p95 run duration grew ${change}% (${baseP95}s -> ${recentP95}s)`,
+      });
+    }
+  }
+  if (baseline.failureRate !== null && recent.failureRate !== null) {
+    const change = round(recent.failureRate - baseline.failureRate, 3);
+    if (change >= t.failureRateIncrease) {
+      regressions.push({
+        metric: "failureRate",
+        baseline: baseline.failureRate,
+        recent: recent.failureRate,
+        change,
+        message: `Failed-run rate rose from ${round(baseline.failureRate * 100, 1)}% to ${round(recent.failureRate * 100, 1)}%`,
+      });
+    }
+  }
+  return regressions;
+}
+
+/**
+ * Trends over runs (oldest first) in a window ending now: overall stats, per-bucket stats, regressions
+ * of the latest bucket, and, with an SLA, how many runs exceeded it and the p95 headroom left.
+ */
+export function computeIndexerTrends(runs: IndexerRun[], opts: { bucket: TrendBucket; slaMinutes?: number; now?: number }) {
+  const grouped = new Map<string, IndexerRun[]>();
+  for (const run of runs) {
+    const key = bucketStart(run.startTime, opts.bucket);
+    grouped.set(key, [...(grouped.get(key) ?? []), run]);
+  }
+  const buckets = [...grouped.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([start, bucketRuns]) => ({ start, ...computeRunStats(bucketRuns) }));
+
+  const latest = bucketStart(new Date(opts.now ?? Date.now()).toISOString(), opts.bucket);
+  const recentRuns = grouped.get(latest) ?? [];
+  const baselineRuns = runs.filter((r) => bucketStart(r.startTime, opts.bucket) !== latest);
+  const overall = computeRunStats(runs);
+
+  let sla: { minutes: number; runsOverSla: number; p95HeadroomPct: number | null } | null = null;
+  if (opts.slaMinutes) {
+    const limitMs = opts.slaMinutes * 60_000;
+    const p95 = overall.durationSeconds.p95;
+    sla = {
+      minutes: opts.slaMinutes,
+      runsOverSla: runs.filter((r) => (durationMs(r) ?? 0) > limitMs).length,
+      p95HeadroomPct: p95 === null ? null : round(((limitMs / 1000 - p95) / (limitMs / 1000)) * 100, 1),
+    };
+  }
+
+  return {
+    overall,
+    buckets,
+    regressions: findRegressions(baselineRuns, recentRuns),
+    regressionBasis: { recentPeriodStart: latest, recentRuns: recentRuns.length, baselineRuns: baselineRuns.length },
+    sla,
+  };
+}
+
+export const trendWindowStart = (days: number, now = Date.now()) => new Date(now - days * DAY_MS).toISOString();
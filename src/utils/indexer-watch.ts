@@ -0,0 +1,257 @@
+// src/utils/indexer-watch.ts
+/**
+ * Background indexer watches driven by the Durable Object's alarm. Each alarm polls the indexer status
+ * of every due watch, records finished runs in the IndexerRunStore, and notifies subscribers of the
+ * `indexers/{name}` resource when a run finishes or the indexer enters an error state. The alarm is
+ * re-armed for the next due watch, so watches keep running after the tool call that created them returns.
+ */
+import type { AzureSearchClient } from "../azure-search-client";
+import type { SqlExecutor } from "../types";
+import { MAX_WATCH_POLL_FAILURES } from "../constants";
+import { finishedRuns, type IndexerRun, type IndexerRunBackend } from "./indexer-runs";
+import type { ResourceSubscriptions } from "./resource-subscriptions";
+
+// The subset of DurableObjectStorage the watcher uses
+export interface AlarmStorage {
+  getAlarm(): Promise<number | null>;
+  setAlarm(scheduledTime: number): Promise<void>;
+  deleteAlarm(): Promise<void>;
+}
+
+export interface IndexerWatch {
+  endpoint: string;
+  service: string | null; // service profile to poll with; null for the default profile
+  indexer: string;
+  pollSeconds: number;
+  stopAfterRun: boolean;
+  createdAt: string;
+  expiresAt: string;
+  nextPollAt: string;
+  lastPolledAt: string | null;
+  lastRunStart: string | null; // start time of the newest finished run already seen
+  lastIndexerStatus: string | null;
+  polls: number;
+  failures: number; // consecutive failed status reads
+  lastError: string | null;
+}
+
+export interface WatchEvent {
+  indexer: string;
+  endpoint: string;
+  runs: IndexerRun[];
+  ended: "completed" | "expired" | "deleted" | "failing" | null;
+  notified: boolean;
+}
+
+type WatchRow = {
+  endpoint: string;
+  service: string | null;
+  indexer: string;
+  poll_seconds: number;
+  stop_after_run: number;
+  created_at: string;
+  expires_at: number;
+  next_poll_at: number;
+  last_polled_at: string | null;
+  last_run_start: string | null;
+  last_indexer_status: string | null;
+  polls: number;
+  failures: number;
+  last_error: string | null;
+};
+
+/** Resource URI whose subscribers hear about the indexer's runs. */
+export const indexerResourceUri = (indexer: string) => `indexers/${indexer}`;
+
+export class IndexerWatcher {
+  private initialized = false;
+
+  constructor(
+    private readonly options: {
+      sql: SqlExecutor;
+      storage: AlarmStorage;
+      runs: IndexerRunBackend;
+      getClient: (service?: string) => AzureSearchClient;
+      subscriptions: ResourceSubscriptions | null;
+    },
+  ) {}
+
+  private get sql() {
+    return this.options.sql;
+  }
+
+  private ensureTable() {
+    if (this.initialized) return;
+    this.sql`CREATE TABLE IF NOT EXISTS indexer_watches (
+      endpoint TEXT NOT NULL,
+      service TEXT,
+      indexer TEXT NOT NULL,
+      poll_seconds INTEGER NOT NULL,
+      stop_after_run INTEGER NOT NULL,
+      created_at TEXT NOT NULL,
+      expires_at INTEGER NOT NULL,
+      next_poll_at INTEGER NOT NULL,
+      last_polled_at TEXT,
+      last_run_start TEXT,
+      last_indexer_status TEXT,
+      polls INTEGER NOT NULL DEFAULT 0,
+      failures INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      PRIMARY KEY (endpoint, indexer)
+    )`;
+    this.initialized = true;
+  }
+
+  /**
+   * Start (or restart) watching an indexer. Runs that already finished are recorded but do not
+   * notify; only runs finishing after this call do.
+   */
+  async watch(opts: {
+    client: AzureSearchClient;
+    service: string | null;
+    indexer: string;
+    pollSeconds: number;
+    durationMinutes: number;
+    stopAfterRun: boolean;
+  }): Promise<IndexerWatch> {
+    this.ensureTable();
+    const endpoint = opts.client.getEndpoint();
+    const status: any = await opts.client.fresh().getIndexerStatus(opts.indexer);
+    const finished = await this.recordFinishedRuns(endpoint, opts.indexer, status, null);
+    const now = Date.now();
+
+    this.sql`INSERT OR REPLACE INTO indexer_watches (endpoint, service, indexer, poll_seconds, stop_after_run, created_at,
+        expires_at, next_poll_at, last_run_start, last_indexer_status, polls, failures)
+      VALUES (${endpoint}, ${opts.service}, ${opts.indexer}, ${opts.pollSeconds}, ${opts.stopAfterRun ? 1 : 0},
+        ${new Date(now).toISOString()}, ${now + opts.durationMinutes * 60_000}, ${now + opts.pollSeconds * 1000},
+        ${finished[0]?.startTime ?? null}, ${status.status ?? null}, 0, 0)`;
+    await this.reschedule();
+    return this.get(endpoint, opts.indexer)!;
+  }
+
+  async unwatch(endpoint: string, indexer: string): Promise<boolean> {
+    this.ensureTable();
+    const existed = this.get(endpoint, indexer) !== null;
+    this.sql`DELETE FROM indexer_watches WHERE endpoint = ${endpoint} AND indexer = ${indexer}`;
+    await this.reschedule();
+    return existed;
+  }
+
+  get(endpoint: string, indexer: string): IndexerWatch | null {
+    this.ensureTable();
+    const row = this.sql<WatchRow>`SELECT * FROM indexer_watches WHERE endpoint = ${endpoint} AND indexer = ${indexer}`[0];
+    return row ? toWatch(row) : null;
+  }
+
+  list(): IndexerWatch[] {
+    this.ensureTable();
+    return this.sql<WatchRow>`SELECT * FROM indexer_watches ORDER BY next_poll_at`.map(toWatch);
+  }
+
+  /** Poll every due watch, then re-arm the alarm for the next one. Called from the Durable Object's alarm(). */
+  async onAlarm(): Promise<WatchEvent[]> {
+    this.ensureTable();
+    const due = this.sql<WatchRow>`SELECT * FROM indexer_watches WHERE next_poll_at <= ${Date.now()} ORDER BY next_poll_at`;
+    const events: WatchEvent[] = [];
+    try {
+      for (const row of due) {
+        events.push(await this.poll(row));
+      }
+    } finally {
+      await this.reschedule();
+    }
+    return events;
+  }
+
+  private async poll(row: WatchRow): Promise<WatchEvent> {
+    const event: WatchEvent = { indexer: row.indexer, endpoint: row.endpoint, runs: [], ended: null, notified: false };
+    const now = Date.now();
+    if (now > row.expires_at) {
+      this.remove(row);
+      return { ...event, ended: "expired" };
+    }
+
+    let status: any;
+    try {
+      status = await this.options.getClient(row.service ?? undefined).fresh().getIndexerStatus(row.indexer);
+    } catch (e: any) {
+      const message = e instanceof Error ? e.message : String(e);
+      if (e?.statusCode === 404) {
+        this.remove(row);
+        return { ...event, ended: "deleted", notified: await this.notify(row.indexer) };
+      }
+      const failures = row.failures + 1;
+      if (failures >= MAX_WATCH_POLL_FAILURES) {
+        console.error(`Dropping watch on indexer '${row.indexer}' after ${failures} failed status reads: ${message}`);
+        this.remove(row);
+        return { ...event, ended: "failing" };
+      }
+      this.sql`UPDATE indexer_watches SET failures = ${failures}, last_error = ${message}, last_polled_at = ${new Date(now).toISOString()},
+          next_poll_at = ${now + row.poll_seconds * 1000}
+        WHERE endpoint = ${row.endpoint} AND indexer = ${row.indexer}`;
+      return event;
+    }
+
+    event.runs = await this.recordFinishedRuns(row.endpoint, row.indexer, status, row.last_run_start);
+    const indexerStatus: string | null = status.status ?? null;
+    const enteredError = indexerStatus === "error" && row.last_indexer_status !== "error";
+    if (event.runs.length > 0 || enteredError) event.notified = await this.notify(row.indexer);
+
+    if (row.stop_after_run && event.runs.length > 0) {
+      this.remove(row);
+      return { ...event, ended: "completed" };
+    }
+    this.sql`UPDATE indexer_watches SET polls = ${row.polls + 1}, failures = 0, last_error = NULL,
+        last_polled_at = ${new Date(now).toISOString()}, next_poll_at = ${now + row.poll_seconds * 1000},
+        last_run_start = ${event.runs[0]?.startTime ?? row.last_run_start}, last_indexer_status = ${indexerStatus}
+      WHERE endpoint = ${row.endpoint} AND indexer = ${row.indexer}`;
+    return event;
+  }
+
+  /** Record finished runs that started after `since`; returns them newest first. */
+  private async recordFinishedRuns(endpoint: string, indexer: string, status: any, since: string | null): Promise<IndexerRun[]> {
+    const sinceMs = since ? Date.parse(since) : -Infinity;
+    const runs = finishedRuns(endpoint, indexer, status).filter((run) => Date.parse(run.startTime) > sinceMs);
+    for (const run of runs) await this.options.runs.record(run);
+    return runs;
+  }
+
+  private notify(indexer: string): Promise<boolean> {
+    return this.options.subscriptions?.notifyUpdated(indexerResourceUri(indexer)) ?? Promise.resolve(false);
+  }
+
+  private remove(row: WatchRow) {
+    this.sql`DELETE FROM indexer_watches WHERE endpoint = ${row.endpoint} AND indexer = ${row.indexer}`;
+  }
+
+  /** Arm the alarm for the earliest due watch, or clear it when nothing is watched. */
+  private async reschedule() {
+    const next = this.sql<{ next: number | null }>`SELECT MIN(next_poll_at) AS next FROM indexer_watches`[0]?.next ?? null;
+    const { storage } = this.options;
+    if (next === null) {
+      await storage.deleteAlarm();
+      return;
+    }
+    const current = await storage.getAlarm();
+    if (current === null || current > next || current < Date.now()) await storage.setAlarm(Math.max(next, Date.now()));
+  }
+}
+
+function toWatch(r: WatchRow): IndexerWatch {
+  return {
+    endpoint: r.endpoint,
+    service: r.service,
+    indexer: r.indexer,
+    pollSeconds: r.poll_seconds,
+    stopAfterRun: r.stop_after_run === 1,
+    createdAt: r.created_at,
+    expiresAt: new Date(r.expires_at).toISOString(),
+    nextPollAt: new Date(r.next_poll_at).toISOString(),
+    lastPolledAt: r.last_polled_at,
+    lastRunStart: r.last_run_start,
+    lastIndexerStatus: r.last_indexer_status,
+    polls: r.polls,
+    failures: r.failures,
+    lastError: r.last_error,
+  };
+}
@@ -0,0 +1,461 @@
+// src/utils/resource-plan.ts
+/**
+ * Declarative "search-as-code": diff a bundle of desired definitions against live service state and
+ * apply the differences in dependency order with ETag concurrency.
+ */
+import type { AzureSearchClient } from "../azure-search-client";
+import { extractEtag } from "./verify";
+import { diffIndexDefinitions, type ChangeImpact } from "./index-diff";
+
+export type ResourceKind =
+  | "synonymMap"
+  | "dataSource"
+  | "index"
+  | "skillset"
+  | "indexer"
+  | "knowledgeSource"
+  | "alias"
+  | "knowledgeAgent";
+
+export interface ResourceBundle {
+  synonymMaps?: any[];
+  dataSources?: any[];
+  indexes?: any[];
+  skillsets?: any[];
+  indexers?: any[];
+  knowledgeSources?: any[];
+  aliases?: any[];
+  knowledgeAgents?: any[];
+}
+
+export interface AttributeChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface PlannedChange {
+  kind: ResourceKind;
+  name: string;
+  action: "create" | "update" | "noop";
+  tier: number;
+  etag: string | null;
+  changes: AttributeChange[];
+  indexImpact?: ChangeImpact | "none";
+  blocked?: string;
+  desired: any; // what the PUT sends; for updates, the bundle's definition merged over live state
+}
+
+export interface ResourcePlan {
+  changes: PlannedChange[];
+  summary: { create: number; update: number; noop: number; blocked: number };
+  text: string;
+  planHash: string;
+}
+
+interface ResourceHandler {
+  bundleKey: keyof ResourceBundle;
+  label: string;
+  tier: number;
+  get: (c: AzureSearchClient, name: string) => Promise<unknown>;
+  put: (c: AzureSearchClient, name: string, def: any, opts: { ifMatch?: string; ifNoneMatch?: string; allowIndexDowntime?: boolean }) => Promise<unknown>;
+}
+
+/**
+ * Dependency tiers: synonym maps and data sources first, then indexes, then skillsets (index
+ * projections name their target index), then indexers, then knowledge sources (over indexes), then
+ * aliases and knowledge agents.
+ */
+const HANDLERS: Record<ResourceKind, ResourceHandler> = {
+  synonymMap: {
+    bundleKey: "synonymMaps",
+    label: "synonym map",
+    tier: 0,
+    get: (c, n) => c.getSynonymMap(n),
+    put: (c, n, d, o) => c.createOrUpdateSynonymMap(n, d, o),
+  },
+  dataSource: {
+    bundleKey: "dataSources",
+    label: "data source",
+    tier: 0,
+    get: (c, n) => c.getDataSource(n),
+    put: (c, n, d, o) => c.createOrUpdateDataSource(n, d, o),
+  },
+  index: {
+    bundleKey: "indexes",
+    label: "index",
+    tier: 1,
+    get: (c, n) => c.getIndex(n),
+    put: (c, n, d, o) => c.createOrUpdateIndex(n, d, o.ifMatch, { allowIndexDowntime: o.allowIndexDowntime }),
+  },
+  skillset: {
+    bundleKey: "skillsets",
+    label: "skillset",
+    tier: 2,
+    get: (c, n) => c.getSkillset(n),
+    put: (c, n, d, o) => {
+      const headers: Record<string, string> = {};
+      if (o.ifMatch) headers["If-Match"] = o.ifMatch;
+      if (o.ifNoneMatch) headers["If-None-Match"] = o.ifNoneMatch;
+      return c.createOrUpdateSkillset(n, d, headers);
+    },
+  },
+  indexer: {
+    bundleKey: "indexers",
+    label: "indexer",
+    tier: 3,
+    get: (c, n) => c.getIndexer(n),
+    put: (c, n, d, o) => c.createOrUpdateIndexer(n, d, o),
+  },
+  knowledgeSource: {
+    bundleKey: "knowledgeSources",
+    label: "knowledge source",
+    tier: 4,
+    get: (c, n) => c.getKnowledgeSource(n),
+    put: (c, n, d, o) => c.createOrUpdateKnowledgeSource(n, d, o),
+  },
+  alias: {
+    bundleKey: "aliases",
+    label: "alias",
+    tier: 5,
+    get: (c, n) => c.getAlias(n),
+    put: (c, n, d, o) => c.createOrUpdateAlias(n, d, o),
+  },
+  knowledgeAgent: {
+    bundleKey: "knowledgeAgents",
+    label: "knowledge agent",
+    tier: 5,
+    get: (c, n) => c.getKnowledgeAgent(n),
+    put: (c, n, d, o) => c.createOrUpdateKnowledgeAgent(n, d, o),
+  },
+};
+
+export const RESOURCE_KINDS = Object.keys(HANDLERS) as ResourceKind[];
+
+export function resourceLabel(kind: ResourceKind): string {
+  return HANDLERS[kind].label;
+}
+
+// Property names that hold secrets (string values only; `key: true` on a field is not a secret). Matched on the
+// suffix so names like knowledgeStore.storageConnectionString, applicationSecret and subscriptionKey are covered.
+export const SECRET_KEY_PATTERN = /(connectionString|apiKey|key|secret|password|sasToken)$/i;
+
+// Objects whose every string value is a secret: custom skills pass keys such as x-functions-key as HTTP headers
+const SECRET_CONTAINERS = new Set(["httpHeaders"]);
+
+// Service-managed or secret properties that never round-trip through GET
+const IGNORED_KEYS = new Set(["@odata.etag", "@odata.context", "credentials", "encryptionKey"]);
+
+// Arrays of named items (fields, skills, scoringProfiles, ...) are matched by name, not position
+const isNamedArray = (value: unknown): value is Array<{ name: string }> =>
+  Array.isArray(value) && value.every((item) => item && typeof item === "object" && typeof (item as any).name === "string");
+
+/**
+ * The definition a PUT should send: the desired definition laid over the live one, so properties the
+ * bundle omits keep their live values. Named array items are merged with the live item of the same
+ * name; live items the bundle leaves out of such an array are removed, since the PUT replaces it.
+ */
+function mergeOverLive(desired: unknown, live: unknown): unknown {
+  if (Array.isArray(desired)) {
+    if (!isNamedArray(desired) || !isNamedArray(live)) return desired;
+    const liveByName = new Map(live.map((item) => [item.name, item]));
+    return desired.map((item) => mergeOverLive(item, liveByName.get(item.name)));
+  }
+  if (desired && typeof desired === "object") {
+    if (!live || typeof live !== "object" || Array.isArray(live)) return desired;
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(live as Record<string, unknown>)) {
+      if (!IGNORED_KEYS.has(k)) out[k] = v;
+    }
+    for (const [k, v] of Object.entries(desired as Record<string, unknown>)) {
+      out[k] = mergeOverLive(v, (live as any)[k]);
+    }
+    return out;
+  }
+  return desired;
+}
+
+/**
+ * Compare the definition that would be PUT against the live one. Both sides are walked, so live
+ * properties and named array items the PUT would drop are reported as removals (`after: null`).
+ */
+function collectChanges(next: unknown, live: unknown, path: string, out: AttributeChange[]) {
+  if (Array.isArray(next)) {
+    if (isNamedArray(next) && isNamedArray(live)) {
+      const liveByName = new Map(live.map((item) => [item.name, item]));
+      const nextNames = new Set(next.map((item) => item.name));
+      for (const item of next) {
+        const before = liveByName.get(item.name);
+        if (before === undefined) out.push({ path: `${path}[${item.name}]`, before: null, after: item });
+        else collectChanges(item, before, `${path}[${item.name}]`, out);
+      }
+      for (const item of live) {
+        if (!nextNames.has(item.name)) out.push({ path: `${path}[${item.name}]`, before: item, after: null });
+      }
+      return;
+    }
+    if (!Array.isArray(live) || live.length !== next.length) {
+      out.push({ path, before: live ?? null, after: next });
+      return;
+    }
+    next.forEach((d, i) => collectChanges(d, live[i], `${path}[${i}]`, out));
+    return;
+  }
+  if (next && typeof next === "object") {
+    if (!live || typeof live !== "object" || Array.isArray(live)) {
+      out.push({ path, before: live ?? null, after: next });
+      return;
+    }
+    const keys = new Set([...Object.keys(live as object), ...Object.keys(next as object)]);
+    for (const k of keys) {
+      if (IGNORED_KEYS.has(k)) continue;
+      collectChanges((next as any)[k], (live as any)[k], path ? `${path}.${k}` : k, out);
+    }
+    return;
+  }
+  if ((next ?? null) !== (live ?? null)) {
+    out.push({ path, before: live ?? null, after: next ?? null });
+  }
+}
+
+// Live ETags feed If-Match, so these reads skip the response cache
+async function getOrNull(handler: ResourceHandler, client: AzureSearchClient, name: string): Promise<any | null> {
+  try {
+    return await handler.get(client.fresh(), name);
+  } catch (e: any) {
+    const status = e?.statusCode ?? e?.response?.status;
+    if (status === 404) return null;
+    throw e;
+  }
+}
+
+/** Live definition of one resource, or null when it does not exist. */
+export function getLiveDefinition(client: AzureSearchClient, kind: ResourceKind, name: string): Promise<any | null> {
+  return getOrNull(HANDLERS[kind], client, name);
+}
+
+/** PUT one definition through the kind's client method, passing ETag preconditions through. */
+export function putDefinition(
+  client: AzureSearchClient,
+  kind: ResourceKind,
+  name: string,
+  def: any,
+  opts: { ifMatch?: string; ifNoneMatch?: string; allowIndexDowntime?: boolean } = {},
+): Promise<unknown> {
+  return HANDLERS[kind].put(client, name, def, opts);
+}
+
+/** True when the last segment of an attribute path (e.g. "vectorizers[v1].azureOpenAIParameters.apiKey") names a secret. */
+export function isSecretPath(path: string): boolean {
+  const segments = path.split(".").map((s) => s.replace(/\[.*\]$/, ""));
+  const last = segments[segments.length - 1] ?? "";
+  return SECRET_KEY_PATTERN.test(last) || SECRET_CONTAINERS.has(segments[segments.length - 2] ?? "");
+}
+
+/**
+ * Replace every secret-looking string value with `replacement`, returning a copy and the paths
+ * that were replaced.
+ */
+export function redactSecrets<T>(value: T, replacement: string, path = ""): { value: T; paths: string[] } {
+  const paths: string[] = [];
+  const walk = (v: any, p: string, secretContainer = false): any => {
+    if (Array.isArray(v)) {
+      return v.map((item, i) => walk(item, `${p}[${item && typeof item === "object" && "name" in item ? item.name : i}]`));
+    }
+    if (v && typeof v === "object") {
+      const out: Record<string, unknown> = {};
+      for (const [k, child] of Object.entries(v)) {
+        const childPath = p ? `${p}.${k}` : k;
+        if (typeof child === "string" && (secretContainer || SECRET_KEY_PATTERN.test(k)) && child !== "<unchanged>") {
+          out[k] = replacement;
+          paths.push(childPath);
+        } else {
+          out[k] = walk(child, childPath, SECRET_CONTAINERS.has(k));
+        }
+      }
+      return out;
+    }
+    return v;
+  };
+  return { value: walk(value, path), paths };
+}
+
+function formatValue(v: unknown, path: string): string {
+  if (typeof v === "string" && isSecretPath(path)) return '"(sensitive)"';
+  const s = JSON.stringify(v);
+  return s === undefined ? "null" : s.length > 80 ? `${s.slice(0, 77)}...` : s;
+}
+
+function renderPlan(changes: PlannedChange[], summary: ResourcePlan["summary"]): string {
+  const lines: string[] = [];
+  for (const c of changes) {
+    if (c.action === "noop") continue;
+    const symbol = c.action === "create" ? "+" : "~";
+    const impact = c.indexImpact && c.indexImpact !== "none" ? ` (${c.indexImpact})` : "";
+    lines.push(`  ${symbol} ${HANDLERS[c.kind].label} "${c.name}"${impact}${c.blocked ? " [BLOCKED]" : ""}`);
+    if (c.action === "update") {
+      for (const a of c.changes) {
+        if (a.after === null && a.before !== null) lines.push(`      - ${a.path}: ${formatValue(a.before, a.path)}`);
+        else lines.push(`      ~ ${a.path}: ${formatValue(a.before, a.path)} -> ${formatValue(a.after, a.path)}`);
+      }
+    }
+    if (c.blocked) lines.push(`      ! ${c.blocked}`);
+  }
+  if (lines.length === 0) lines.push("  No changes. Live state matches the bundle.");
+  lines.push("");
+  lines.push(
+    `Plan: ${summary.create} to add, ${summary.update} to change, ${summary.noop} unchanged` +
+      (summary.blocked > 0 ? `, ${summary.blocked} blocked.` : "."),
+  );
+  return lines.join("\n");
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/** Validate bundle shape; every definition needs a name and names must be unique per kind. */
+export function validateBundle(bundle: ResourceBundle): string[] {
+  const errors: string[] = [];
+  for (const kind of RESOURCE_KINDS) {
+    const items = bundle[HANDLERS[kind].bundleKey];
+    if (items === undefined) continue;
+    if (!Array.isArray(items)) {
+      errors.push(`${HANDLERS[kind].bundleKey} must be an array`);
+      continue;
+    }
+    const seen = new Set<string>();
+    items.forEach((item, i) => {
+      if (!item?.name || typeof item.name !== "string") errors.push(`${HANDLERS[kind].bundleKey}[${i}] must have a name`);
+      else if (seen.has(item.name)) errors.push(`Duplicate ${HANDLERS[kind].label} '${item.name}'`);
+      else seen.add(item.name);
+    });
+  }
+  return errors;
+}
+
+/** Diff the bundle against live state. Nothing is modified. */
+export async function planResources(
+  client: AzureSearchClient,
+  bundle: ResourceBundle,
+  options: { allowIndexDowntime?: boolean } = {},
+): Promise<ResourcePlan> {
+  const errors = validateBundle(bundle);
+  if (errors.length > 0) {
+    throw new Error(`Validation failed:\n${errors.join("\n")}`);
+  }
+
+  const entries = RESOURCE_KINDS.flatMap((kind) => (bundle[HANDLERS[kind].bundleKey] || []).map((def: any) => ({ kind, def })));
+
+  const changes = await Promise.all(
+    entries.map(async ({ kind, def }): Promise<PlannedChange> => {
+      const handler = HANDLERS[kind];
+      const live = await getOrNull(handler, client, def.name);
+      const base = { kind, name: def.name, tier: handler.tier, desired: def };
+      if (!live) {
+        return { ...base, action: "create", etag: null, changes: [] };
+      }
+
+      const next = mergeOverLive(def, live);
+      const attrs: AttributeChange[] = [];
+      collectChanges(next, live, "", attrs);
+      // GET never returns connection strings, so one supplied in the bundle is always applied
+      const connectionString = kind === "dataSource" ? def.credentials?.connectionString : undefined;
+      if (typeof connectionString === "string" && connectionString && connectionString !== "<unchanged>") {
+        attrs.push({ path: "credentials.connectionString", before: null, after: connectionString });
+      }
+      const change: PlannedChange = {
+        ...base,
+        desired: next,
+        action: attrs.length > 0 ? "update" : "noop",
+        etag: extractEtag(live),
+        changes: attrs,
+      };
+
+      if (kind === "index" && attrs.length > 0) {
+        const diff = diffIndexDefinitions(live, next);
+        change.indexImpact = diff.impact;
+        if (diff.impact === "requiresRebuild") {
+          change.blocked = "Index change requires a rebuild; create a new index and swap an alias instead";
+        } else if (diff.impact === "requiresDowntime" && !options.allowIndexDowntime) {
+          change.blocked = "Index change requires allowIndexDowntime=true";
+        }
+      }
+      return change;
+    }),
+  );
+
+  changes.sort((a, b) => a.tier - b.tier);
+  const summary = {
+    create: changes.filter((c) => c.action === "create").length,
+    update: changes.filter((c) => c.action === "update").length,
+    noop: changes.filter((c) => c.action === "noop").length,
+    blocked: changes.filter((c) => c.blocked).length,
+  };
+
+  // The hash pins both the intended changes and the live ETags they were computed against
+  const planHash = await sha256(
+    JSON.stringify(changes.map((c) => [c.kind, c.name, c.action, c.etag, c.changes, c.action === "create" ? c.desired : null])),
+  );
+
+  return { changes, summary, text: renderPlan(changes, summary), planHash };
+}
+
+export interface ApplyResult {
+  kind: ResourceKind;
+  name: string;
+  action: "create" | "update";
+  status: "applied" | "failed" | "skipped";
+  etag?: string | null;
+  error?: string;
+}
+
+/**
+ * Apply a plan tier by tier. Creates use If-None-Match: * and updates use If-Match with the ETag
+ * seen at plan time, so anything changed since the plan fails instead of being overwritten.
+ * Later tiers are skipped once a tier has a failure.
+ */
+export async function applyPlan(
+  client: AzureSearchClient,
+  plan: ResourcePlan,
+  options: { allowIndexDowntime?: boolean } = {},
+): Promise<ApplyResult[]> {
+  const results: ApplyResult[] = [];
+  const pending = plan.changes.filter((c) => c.action !== "noop") as Array<PlannedChange & { action: "create" | "update" }>;
+  const tiers = [...new Set(pending.map((c) => c.tier))].sort((a, b) => a - b);
+  let failed = false;
+
+  for (const tier of tiers) {
+    const batch = pending.filter((c) => c.tier === tier);
+    if (failed) {
+      batch.forEach((c) => results.push({ kind: c.kind, name: c.name, action: c.action, status: "skipped", error: "Skipped after an earlier failure" }));
+      continue;
+    }
+
+    const outcomes = await Promise.all(
+      batch.map(async (c): Promise<ApplyResult> => {
+        if (c.blocked) return { kind: c.kind, name: c.name, action: c.action, status: "failed", error: c.blocked };
+        try {
+          const def = { ...c.desired };
+          delete def["@odata.etag"];
+          // Secrets stay out of source control; keep the live connection string on update
+          if (c.kind === "dataSource" && c.action === "update" && !def.credentials?.connectionString) {
+            def.credentials = { ...(def.credentials || {}), connectionString: "<unchanged>" };
+          }
+          const opts = c.action === "create" ? { ifNoneMatch: "*" } : { ifMatch: c.etag ?? undefined };
+          const res = await HANDLERS[c.kind].put(client, c.name, def, { ...opts, allowIndexDowntime: options.allowIndexDowntime });
+          return { kind: c.kind, name: c.name, action: c.action, status: "applied", etag: extractEtag(res) };
+        } catch (e: any) {
+          return { kind: c.kind, name: c.name, action: c.action, status: "failed", error: e?.message ?? String(e) };
+        }
+      }),
+    );
+    results.push(...outcomes);
+    failed = outcomes.some((o) => o.status === "failed");
+  }
+
+  return results;
+}
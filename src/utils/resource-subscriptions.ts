@@ -0,0 +1,99 @@
+// src/utils/resource-subscriptions.ts
+/**
+ * resources/subscribe and resources/unsubscribe for this MCP session. Subscribed URIs are kept in the
+ * Durable Object's SQLite storage so they survive hibernation; notifyUpdated only notifies subscribers.
+ * Updates that cannot be sent (no client connected when an alarm fires) are queued in SQLite and sent
+ * by flushPending when the session starts again or the client subscribes.
+ */
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import type { SqlExecutor } from "../types";
+
+export class ResourceSubscriptions {
+  private initialized = false;
+
+  constructor(
+    private readonly sql: SqlExecutor,
+    private readonly server: any,
+  ) {}
+
+  private ensureTable() {
+    if (this.initialized) return;
+    this.sql`CREATE TABLE IF NOT EXISTS resource_subscriptions (
+      uri TEXT PRIMARY KEY,
+      subscribed_at TEXT NOT NULL
+    )`;
+    this.sql`CREATE TABLE IF NOT EXISTS resource_updates_pending (
+      uri TEXT PRIMARY KEY,
+      queued_at TEXT NOT NULL
+    )`;
+    this.initialized = true;
+  }
+
+  /** Handle subscribe/unsubscribe requests. Call before the server connects to a transport. */
+  install() {
+    const lowLevel = this.server.server;
+    lowLevel.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+    lowLevel.setRequestHandler(SubscribeRequestSchema, async (request: any) => {
+      this.subscribe(request.params.uri);
+      // A client resubscribing after a reconnect hears about what changed while it was away
+      void this.flushPending();
+      return {};
+    });
+    lowLevel.setRequestHandler(UnsubscribeRequestSchema, async (request: any) => {
+      this.unsubscribe(request.params.uri);
+      return {};
+    });
+  }
+
+  subscribe(uri: string) {
+    this.ensureTable();
+    this.sql`INSERT OR REPLACE INTO resource_subscriptions (uri, subscribed_at) VALUES (${uri}, ${new Date().toISOString()})`;
+  }
+
+  unsubscribe(uri: string) {
+    this.ensureTable();
+    this.sql`DELETE FROM resource_subscriptions WHERE uri = ${uri}`;
+    this.sql`DELETE FROM resource_updates_pending WHERE uri = ${uri}`;
+  }
+
+  isSubscribed(uri: string): boolean {
+    this.ensureTable();
+    return this.sql`SELECT uri FROM resource_subscriptions WHERE uri = ${uri}`.length > 0;
+  }
+
+  list(): string[] {
+    this.ensureTable();
+    return this.sql<{ uri: string }>`SELECT uri FROM resource_subscriptions ORDER BY uri`.map((r) => r.uri);
+  }
+
+  /**
+   * Send notifications/resources/updated if the client subscribed to `uri`. When it cannot be sent now (an
+   * alarm can fire while the session is hibernated) it is queued for flushPending. Returns whether it was sent.
+   */
+  async notifyUpdated(uri: string): Promise<boolean> {
+    if (!this.isSubscribed(uri)) return false;
+    this.sql`INSERT OR REPLACE INTO resource_updates_pending (uri, queued_at) VALUES (${uri}, ${new Date().toISOString()})`;
+    const sent = await this.flushPending();
+    return sent.includes(uri);
+  }
+
+  /** Send every queued update the client is still subscribed to. Returns the URIs sent. */
+  async flushPending(): Promise<string[]> {
+    this.ensureTable();
+    if (!this.server.server.transport) return [];
+    const sent: string[] = [];
+    for (const { uri } of this.sql<{ uri: string }>`SELECT p.uri FROM resource_updates_pending p
+        JOIN resource_subscriptions s ON s.uri = p.uri ORDER BY p.queued_at`) {
+      try {
+        await this.server.server.sendResourceUpdated({ uri });
+      } catch (e) {
+        // The client may have disconnected; the update stays queued until it is back
+        console.error(`Could not notify ${uri} update`, e);
+        break;
+      }
+      this.sql`DELETE FROM resource_updates_pending WHERE uri = ${uri}`;
+      sent.push(uri);
+    }
+    return sent;
+  }
+}
@@ -0,0 +1,285 @@
+// src/utils/response-cache.ts
+/**
+ * TTL cache for AzureSearchClient GET requests, one per service endpoint.
+ *  - TTLs are per resource type (indexes, indexers, indexStats, indexerStatus, ...)
+ *  - Expired entries with an @odata.etag are revalidated with If-None-Match instead of refetched
+ *  - Any write to an object drops every cached path under it, its collection listing and service stats
+ * Entries live in memory and, with AZURE_SEARCH_CACHE=durable, also in the Durable Object's SQLite
+ * storage so they survive the agent being evicted.
+ */
+import type { SqlExecutor } from "../types";
+import { DEFAULT_CACHE_TTLS_SECONDS, MAX_CACHE_ENTRIES } from "../constants";
+import { extractEtag } from "./verify";
+
+export type CacheResourceType = keyof typeof DEFAULT_CACHE_TTLS_SECONDS;
+export type CacheMode = "off" | "memory" | "durable";
+
+export interface CacheConfig {
+  mode: CacheMode;
+  ttls: Record<CacheResourceType, number>; // seconds
+}
+
+export interface CacheEnv {
+  AZURE_SEARCH_CACHE?: string; // "memory" (default) | "durable" | "off"
+  AZURE_SEARCH_CACHE_TTLS?: string; // JSON, e.g. {"indexes": 300, "indexerStatus": 0}
+}
+
+export interface CacheStats {
+  endpoint: string;
+  mode: CacheMode;
+  entries: number;
+  hits: number;
+  misses: number;
+  revalidated: number; // expired entries confirmed unchanged by a 304
+  invalidations: number;
+  evictions: number;
+  hitRate: number | null;
+  byResource: Record<string, { hits: number; misses: number; entries: number; ttlSeconds: number }>;
+}
+
+interface CacheEntry {
+  value: unknown;
+  etag: string | null;
+  resource: CacheResourceType;
+  expiresAt: number;
+}
+
+type CacheRow = { value: string; etag: string | null; resource: string; expires_at: number };
+
+/** Returned by the client when a revalidation request came back 304 Not Modified. */
+export const NOT_MODIFIED = Symbol("notModified");
+
+const STALE_ROW_RETENTION_MS = 60 * 60 * 1000;
+
+const RESOURCE_TYPES = Object.keys(DEFAULT_CACHE_TTLS_SECONDS) as CacheResourceType[];
+
+// POSTs that only read; everything else that is not a GET changes state
+const QUERY_PATHS = /\/(docs\/search|docs\/suggest|docs\/autocomplete|search\.analyze|retrieve)$/;
+
+export function parseCacheConfig(env: CacheEnv): CacheConfig {
+  const mode = (env.AZURE_SEARCH_CACHE?.trim().toLowerCase() || "memory") as CacheMode;
+  if (!["off", "memory", "durable"].includes(mode)) {
+    throw new Error(`AZURE_SEARCH_CACHE must be 'memory', 'durable' or 'off' (got '${env.AZURE_SEARCH_CACHE}')`);
+  }
+
+  const ttls: Record<CacheResourceType, number> = { ...DEFAULT_CACHE_TTLS_SECONDS };
+  if (env.AZURE_SEARCH_CACHE_TTLS) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(env.AZURE_SEARCH_CACHE_TTLS);
+    } catch (e) {
+      throw new Error(`AZURE_SEARCH_CACHE_TTLS is not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    for (const [key, value] of Object.entries((parsed ?? {}) as Record<string, unknown>)) {
+      if (!RESOURCE_TYPES.includes(key as CacheResourceType)) {
+        throw new Error(`AZURE_SEARCH_CACHE_TTLS: unknown resource type '${key}'. Known: ${RESOURCE_TYPES.join(", ")}`);
+      }
+      if (typeof value !== "number" || value < 0) throw new Error(`AZURE_SEARCH_CACHE_TTLS: '${key}' must be a number of seconds >= 0`);
+      ttls[key as CacheResourceType] = value;
+    }
+  }
+  return { mode, ttls };
+}
+
+/** Resource type of a request path, e.g. "/indexers('x')/search.status" -> "indexerStatus". */
+export function resourceTypeOf(path: string): CacheResourceType | null {
+  const p = path.split("?")[0];
+  if (p === "/servicestats") return "servicestats";
+  if (p === "/indexstats" || /\/search\.stats$/.test(p)) return "indexStats";
+  if (/\/search\.status$/.test(p)) return "indexerStatus";
+  if (/\/docs(\/|$)/.test(p)) return "documents";
+  const collection = /^\/([a-z]+)/.exec(p)?.[1];
+  return collection && RESOURCE_TYPES.includes(collection as CacheResourceType) ? (collection as CacheResourceType) : null;
+}
+
+export function isMutatingRequest(method: string, path: string): boolean {
+  if (method === "GET" || method === "HEAD") return false;
+  return !(method === "POST" && QUERY_PATHS.test(path.split("?")[0]));
+}
+
+export class ResponseCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly inflight = new Map<string, Promise<unknown>>();
+  private readonly counters = new Map<CacheResourceType, { hits: number; misses: number }>();
+  private revalidated = 0;
+  private invalidations = 0;
+  private evictions = 0;
+  private generation = 0; // bumped by invalidate() so in-flight reads that raced a write are not stored
+  private initialized = false;
+
+  constructor(
+    private readonly endpoint: string,
+    private readonly config: CacheConfig,
+    private readonly sql?: SqlExecutor,
+  ) {}
+
+  private get durable(): boolean {
+    return this.config.mode === "durable" && !!this.sql;
+  }
+
+  private ensureTable() {
+    if (this.initialized || !this.durable) return;
+    this.sql!`CREATE TABLE IF NOT EXISTS response_cache (
+      endpoint TEXT NOT NULL,
+      path TEXT NOT NULL,
+      resource TEXT NOT NULL,
+      value TEXT NOT NULL,
+      etag TEXT,
+      expires_at INTEGER NOT NULL,
+      PRIMARY KEY (endpoint, path)
+    )`;
+    // Expired rows are kept for a while for ETag revalidation, then dropped
+    this.sql!`DELETE FROM response_cache WHERE expires_at < ${Date.now() - STALE_ROW_RETENTION_MS}`;
+    this.initialized = true;
+  }
+
+  private count(resource: CacheResourceType, field: "hits" | "misses") {
+    const c = this.counters.get(resource) ?? { hits: 0, misses: 0 };
+    c[field] += 1;
+    this.counters.set(resource, c);
+  }
+
+  private lookup(path: string): CacheEntry | null {
+    const entry = this.entries.get(path);
+    if (entry || !this.durable) return entry ?? null;
+    this.ensureTable();
+    const row = this.sql!<CacheRow>`SELECT value, etag, resource, expires_at FROM response_cache
+      WHERE endpoint = ${this.endpoint} AND path = ${path}`[0];
+    if (!row) return null;
+    const restored: CacheEntry = { value: JSON.parse(row.value), etag: row.etag, resource: row.resource as CacheResourceType, expiresAt: row.expires_at };
+    this.entries.set(path, restored);
+    return restored;
+  }
+
+  private store(path: string, resource: CacheResourceType, value: unknown) {
+    const entry: CacheEntry = {
+      value: structuredClone(value),
+      etag: extractEtag(value),
+      resource,
+      expiresAt: Date.now() + this.config.ttls[resource] * 1000,
+    };
+    this.entries.delete(path);
+    this.entries.set(path, entry);
+    // Map iteration order is insertion order, so the first key is the least recently stored
+    while (this.entries.size > MAX_CACHE_ENTRIES) {
+      this.entries.delete(this.entries.keys().next().value!);
+      this.evictions += 1;
+    }
+    if (this.durable) {
+      this.ensureTable();
+      this.sql!`INSERT OR REPLACE INTO response_cache (endpoint, path, resource, value, etag, expires_at)
+        VALUES (${this.endpoint}, ${path}, ${resource}, ${JSON.stringify(value)}, ${entry.etag}, ${entry.expiresAt})`;
+    }
+  }
+
+  private touch(path: string, entry: CacheEntry) {
+    entry.expiresAt = Date.now() + this.config.ttls[entry.resource] * 1000;
+    if (this.durable) {
+      this.sql!`UPDATE response_cache SET expires_at = ${entry.expiresAt} WHERE endpoint = ${this.endpoint} AND path = ${path}`;
+    }
+  }
+
+  /**
+   * Serve a GET from the cache or through `fetcher`. The fetcher receives the ETag to revalidate
+   * with (if any) and returns NOT_MODIFIED when the service answers 304.
+   */
+  async get(path: string, fetcher: (ifNoneMatch?: string) => Promise<unknown>): Promise<unknown> {
+    const resource = resourceTypeOf(path);
+    if (this.config.mode === "off" || !resource || this.config.ttls[resource] <= 0) return fetcher();
+
+    const entry = this.lookup(path);
+    if (entry && entry.expiresAt > Date.now()) {
+      this.count(resource, "hits");
+      return structuredClone(entry.value);
+    }
+
+    // Concurrent reads of the same path share one request
+    const pending = this.inflight.get(path);
+    if (pending) {
+      this.count(resource, "hits");
+      return structuredClone(await pending);
+    }
+
+    this.count(resource, "misses");
+    const generation = this.generation;
+    const request = (async () => {
+      const result = await fetcher(entry?.etag ?? undefined);
+      if (result === NOT_MODIFIED && entry) {
+        this.revalidated += 1;
+        if (generation === this.generation) this.touch(path, entry);
+        return entry.value;
+      }
+      if (generation === this.generation) this.store(path, resource, result);
+      return result;
+    })();
+    this.inflight.set(path, request);
+    try {
+      return structuredClone(await request);
+    } finally {
+      this.inflight.delete(path);
+    }
+  }
+
+  /**
+   * Drop what a write to `path` can change: everything under the object ("/indexes('x')" and its
+   * stats, docs, status), the collection listing ("/indexes", "/indexes?$select=..."), and service stats.
+   */
+  invalidate(path: string): number {
+    const p = path.split("?")[0];
+    const object = /^\/[a-z]+\('[^']*'\)/.exec(p)?.[0];
+    const collection = /^\/[a-z]+/.exec(p)?.[0] ?? p;
+    const affected = (key: string) => {
+      const k = key.split("?")[0];
+      return (object !== undefined && k.startsWith(object)) || k === collection || k === "/servicestats" || k === "/indexstats";
+    };
+
+    this.generation += 1;
+    let removed = 0;
+    for (const key of [...this.entries.keys()]) {
+      if (affected(key)) {
+        this.entries.delete(key);
+        removed += 1;
+      }
+    }
+    if (this.durable) {
+      this.ensureTable();
+      const rows = this.sql!<{ path: string }>`SELECT path FROM response_cache WHERE endpoint = ${this.endpoint}`;
+      for (const { path: key } of rows.filter((r) => affected(r.path))) {
+        this.sql!`DELETE FROM response_cache WHERE endpoint = ${this.endpoint} AND path = ${key}`;
+      }
+    }
+    this.invalidations += 1;
+    return removed;
+  }
+
+  clear() {
+    this.entries.clear();
+    if (this.durable) {
+      this.ensureTable();
+      this.sql!`DELETE FROM response_cache WHERE endpoint = ${this.endpoint}`;
+    }
+  }
+
+  stats(): CacheStats {
+    const byResource: CacheStats["byResource"] = {};
+    for (const resource of RESOURCE_TYPES) {
+      const c = this.counters.get(resource) ?? { hits: 0, misses: 0 };
+      const entries = [...this.entries.values()].filter((e) => e.resource === resource).length;
+      byResource[resource] = { ...c, entries, ttlSeconds: this.config.ttls[resource] };
+    }
+    const hits = [...this.counters.values()].reduce((n, c) => n + c.hits, 0);
+    const misses = [...this.counters.values()].reduce((n, c) => n + c.misses, 0);
+    return {
+      endpoint: this.endpoint,
+      mode: this.config.mode,
+      entries: this.entries.size,
+      hits,
+      misses,
+      revalidated: this.revalidated,
+      invalidations: this.invalidations,
+      evictions: this.evictions,
+      hitRate: hits + misses > 0 ? Math.round((hits / (hits + misses)) * 1000) / 1000 : null,
+      byResource,
+    };
+  }
+}
@@ -4,6 +4,7 @@
 import { withTimeout } from "./timeout";
 import { DEFAULT_TIMEOUT_MS, MAX_RESPONSE_SIZE_BYTES, DEFAULT_SUMMARY_MAX_TOKENS } from "../constants";
 import { normalizeError } from "../insights";
+import { reportToolOutcome } from "./audit-context";
 
 // Utilities for consistent MCP response formatting and error normalization
 
@@ -265,6 +266,7 @@ export class ResponseFormatter {
    */
   formatError(error: any, context: Record<string, any>): MCPResponse {
     const { insight } = normalizeError(error, context);
+    reportToolOutcome({ code: insight.code, message: insight.message });
     return formatToolError(insight);
   }
 
@@ -282,6 +284,7 @@ export class ResponseFormatter {
       const op =
         typeof operation === "function" ? (operation as () => Promise<T>) : () => operation;
       const result = await withTimeout(op, timeoutMs, operationName);
+      reportToolOutcome({ code: "OK" });
       return this.formatSuccess(result);
     } catch (error) {
       return this.formatError(error, { ...errorContext, operation: operationName });
@@ -305,6 +308,7 @@ export class ResponseFormatter {
 
       try {
         const result = await withTimeout(() => operation(params), timeoutMs, toolName);
+        reportToolOutcome({ code: "OK" });
         return this.formatSuccess(result);
       } catch (error) {
         return this.formatError(error, errorContext);
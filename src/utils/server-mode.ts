@@ -0,0 +1,74 @@
+// src/utils/server-mode.ts
+/**
+ * SERVER_MODE decides which tools are registered, based on their getToolHints() metadata:
+ *  - readonly: only read-only tools
+ *  - standard: every tool; destructive tools need a confirmation through elicitation
+ *  - admin:    every tool, no extra confirmation
+ */
+import { ToolElicitationBuilder } from "../tool-elicitation";
+import { elicitIfNeeded } from "./elicitation-integration";
+import { formatToolError } from "./response";
+
+export type ServerMode = "readonly" | "standard" | "admin";
+
+export const DEFAULT_SERVER_MODE: ServerMode = "standard";
+
+// Tools that already run their own confirmation elicitation and enforce it in standard mode
+const SELF_CONFIRMING_TOOLS = new Set(["deleteIndex", "deleteSkillset"]);
+
+export function parseServerMode(value: string | undefined): ServerMode {
+  if (!value) return DEFAULT_SERVER_MODE;
+  const normalized = value.trim().toLowerCase();
+  if (normalized === "readonly" || normalized === "standard" || normalized === "admin") return normalized;
+  throw new Error(`SERVER_MODE must be 'readonly', 'standard' or 'admin' (got '${value}')`);
+}
+
+const findHints = (args: any[]) =>
+  args.find((a) => a && typeof a === "object" && ("readOnlyHint" in a || "destructiveHint" in a)) as
+    | { readOnlyHint?: boolean; destructiveHint?: boolean }
+    | undefined;
+
+// Best-effort name of the resource a destructive call targets, for the confirmation message
+function targetOf(params: Record<string, unknown> | undefined): string | undefined {
+  if (!params) return undefined;
+  const key = Object.keys(params).find((k) => /name$/i.test(k) && typeof params[k] === "string");
+  return key ? (params[key] as string) : undefined;
+}
+
+/**
+ * Wrap `server.tool` to apply the server mode to every tool registered afterwards.
+ * Tools without hints are treated as mutating.
+ */
+export function installServerMode(server: any, mode: ServerMode, elicitationContext: unknown) {
+  if (mode === "admin") return;
+  const register = server.tool.bind(server);
+
+  server.tool = (...args: any[]) => {
+    const name: string = args[0];
+    const hints = findHints(args);
+    if (mode === "readonly" && !hints?.readOnlyHint) return undefined;
+    if (!hints?.destructiveHint || SELF_CONFIRMING_TOOLS.has(name)) return register(...args);
+
+    const handlerIndex = args.findIndex((a) => typeof a === "function");
+    if (handlerIndex === -1) return register(...args);
+    const handler = args[handlerIndex];
+    const wrapped = [...args];
+    wrapped[handlerIndex] = async (params: any, extra: any) => {
+      const confirmed = await elicitIfNeeded(
+        elicitationContext,
+        ToolElicitationBuilder.destructiveToolElicitation(name, targetOf(params)),
+      );
+      if (confirmed?.confirmation !== "CONFIRM" || !confirmed?.understood) {
+        return formatToolError({
+          ok: false,
+          code: "ERR_CONFIRMATION_REQUIRED",
+          message: `'${name}' is destructive and was not confirmed`,
+          recommendation:
+            "Confirm the prompt in your MCP client. Clients without elicitation support cannot run destructive tools in SERVER_MODE=standard; use SERVER_MODE=admin for automation.",
+        });
+      }
+      return handler(params, extra);
+    };
+    return register(...wrapped);
+  };
+}
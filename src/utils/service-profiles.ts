@@ -0,0 +1,297 @@
+// src/utils/service-profiles.ts
+/**
+ * Named connection profiles (e.g. dev, staging, prod). Profiles come from the AZURE_SEARCH_PROFILES
+ * env JSON, the legacy AZURE_SEARCH_ENDPOINT/AZURE_SEARCH_API_KEY pair (profile "default"), or are
+ * added for the current session and stored in the Durable Object's SQLite storage.
+ * Every tool accepts an optional `service` argument; the selected profile is carried through the
+ * call with AsyncLocalStorage so existing `getClient()` calls resolve it without changes.
+ * With AZURE_SEARCH_AUTH_MODE=entra, profiles need no API key: every service is called with one
+ * shared Entra ID client-credentials token. The token is only sent over https to search service hosts
+ * or to hosts listed in AZURE_SEARCH_ENTRA_HOSTS.
+ */
+import { AsyncLocalStorage } from "node:async_hooks";
+import { z } from "zod";
+import { AzureSearchClient } from "../azure-search-client";
+import type { SqlExecutor } from "../types";
+import { entraCredentialFromEnv, parseAuthMode, type AuthMode, type CredentialProvider, type EntraEnv } from "../credentials";
+import { AZURE_SEARCH_SCOPE } from "../constants";
+import { parseCacheConfig, ResponseCache, type CacheConfig, type CacheEnv } from "./response-cache";
+
+export const DEFAULT_PROFILE_NAME = "default";
+export const PROFILE_NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_-]{0,63}$/;
+// Public and sovereign cloud search service hosts
+const SEARCH_SERVICE_HOST_PATTERN = /^[a-z0-9][a-z0-9-]{0,59}\.search\.(windows\.net|azure\.us|azure\.cn)$/i;
+
+/** True for an https:// URL whose host is an Azure AI Search service. */
+export function isSearchServiceEndpoint(endpoint: string): boolean {
+  try {
+    const url = new URL(endpoint);
+    return url.protocol === "https:" && SEARCH_SERVICE_HOST_PATTERN.test(url.hostname);
+  } catch {
+    return false;
+  }
+}
+
+export interface ServiceProfile {
+  name: string;
+  endpoint: string;
+  apiKey?: string; // Not needed with Entra ID auth
+  source: "env" | "session";
+}
+
+export interface ServiceProfileSummary {
+  name: string;
+  endpoint: string;
+  source: "env" | "session";
+  auth: AuthMode;
+  isDefault: boolean;
+}
+
+export interface ProfileEnv extends EntraEnv, CacheEnv {
+  AZURE_SEARCH_ENDPOINT?: string;
+  AZURE_SEARCH_API_KEY?: string;
+  AZURE_SEARCH_PROFILES?: string;
+  AZURE_SEARCH_DEFAULT_SERVICE?: string;
+  AZURE_SEARCH_AUTH_MODE?: string;
+  AZURE_SEARCH_ENTRA_HOSTS?: string;
+}
+
+type ProfileRow = { name: string; endpoint: string; api_key: string | null };
+
+// Profile selected by the tool call currently executing
+const serviceScope = new AsyncLocalStorage<string | undefined>();
+
+export function currentService(): string | undefined {
+  return serviceScope.getStore();
+}
+
+export function runWithService<T>(service: string | undefined, fn: () => T): T {
+  return serviceScope.run(service, fn);
+}
+
+/**
+ * Parse AZURE_SEARCH_PROFILES ({"dev": {"endpoint": "...", "apiKey": "..."}, ...}) and the legacy
+ * single-service variables. Throws on malformed JSON so misconfiguration surfaces at startup.
+ */
+export function parseEnvProfiles(env: ProfileEnv, authMode: AuthMode = "apiKey"): ServiceProfile[] {
+  const keyRequired = authMode === "apiKey";
+  const profiles: ServiceProfile[] = [];
+
+  if (env.AZURE_SEARCH_PROFILES) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(env.AZURE_SEARCH_PROFILES);
+    } catch (e) {
+      throw new Error(`AZURE_SEARCH_PROFILES is not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error('AZURE_SEARCH_PROFILES must be a JSON object: {"<name>": {"endpoint": "...", "apiKey": "..."}}');
+    }
+
+    const errors: string[] = [];
+    for (const [name, value] of Object.entries(parsed as Record<string, any>)) {
+      if (!PROFILE_NAME_PATTERN.test(name)) errors.push(`'${name}': invalid profile name`);
+      else if (!value?.endpoint || typeof value.endpoint !== "string") errors.push(`'${name}': endpoint is required`);
+      else if (keyRequired && (!value?.apiKey || typeof value.apiKey !== "string")) errors.push(`'${name}': apiKey is required`);
+      else profiles.push({ name, endpoint: value.endpoint, apiKey: value.apiKey, source: "env" });
+    }
+    if (errors.length > 0) throw new Error(`Invalid AZURE_SEARCH_PROFILES:\n${errors.join("\n")}`);
+  }
+
+  if (env.AZURE_SEARCH_ENDPOINT && (env.AZURE_SEARCH_API_KEY || !keyRequired) && !profiles.some((p) => p.name === DEFAULT_PROFILE_NAME)) {
+    profiles.push({ name: DEFAULT_PROFILE_NAME, endpoint: env.AZURE_SEARCH_ENDPOINT, apiKey: env.AZURE_SEARCH_API_KEY, source: "env" });
+  }
+
+  return profiles;
+}
+
+export class ServiceProfileRegistry {
+  private readonly envProfiles: Map<string, ServiceProfile>;
+  private readonly defaultName: string | undefined;
+  private readonly clients = new Map<string, AzureSearchClient>();
+  private readonly authMode: AuthMode;
+  // One token serves every search service in the tenant
+  private readonly entraCredential: CredentialProvider | null;
+  // Extra hosts (e.g. custom domains) that may receive the Entra token
+  private readonly entraHosts: Set<string>;
+  private readonly cacheConfig: CacheConfig;
+  private initialized = false;
+
+  constructor(env: ProfileEnv, private readonly sql?: SqlExecutor) {
+    this.authMode = parseAuthMode(env.AZURE_SEARCH_AUTH_MODE, "AZURE_SEARCH_AUTH_MODE");
+    this.entraCredential = this.authMode === "entra" ? entraCredentialFromEnv(env, AZURE_SEARCH_SCOPE) : null;
+    this.entraHosts = new Set(
+      (env.AZURE_SEARCH_ENTRA_HOSTS ?? "")
+        .split(",")
+        .map((h) => h.trim().toLowerCase())
+        .filter(Boolean),
+    );
+    this.cacheConfig = parseCacheConfig(env);
+
+    const profiles = parseEnvProfiles(env, this.authMode);
+    this.envProfiles = new Map(profiles.map((p) => [p.name, p]));
+
+    const configuredDefault = env.AZURE_SEARCH_DEFAULT_SERVICE;
+    if (configuredDefault && !this.envProfiles.has(configuredDefault)) {
+      throw new Error(`AZURE_SEARCH_DEFAULT_SERVICE '${configuredDefault}' does not match a configured profile`);
+    }
+    this.defaultName =
+      configuredDefault ?? (this.envProfiles.has(DEFAULT_PROFILE_NAME) ? DEFAULT_PROFILE_NAME : profiles[0]?.name);
+  }
+
+  private ensureTable() {
+    if (this.initialized || !this.sql) return;
+    this.sql`CREATE TABLE IF NOT EXISTS service_profiles (
+      name TEXT PRIMARY KEY,
+      endpoint TEXT NOT NULL,
+      api_key TEXT,
+      created_at TEXT NOT NULL
+    )`;
+    this.initialized = true;
+  }
+
+  private sessionProfiles(): ServiceProfile[] {
+    if (!this.sql) return [];
+    this.ensureTable();
+    return this.sql<ProfileRow>`SELECT name, endpoint, api_key FROM service_profiles ORDER BY name`.map((r) => ({
+      name: r.name,
+      endpoint: r.endpoint,
+      apiKey: r.api_key ?? undefined,
+      source: "session" as const,
+    }));
+  }
+
+  getDefaultName(): string | undefined {
+    return this.defaultName;
+  }
+
+  /** Resolve a profile by name; no name means the default profile. */
+  resolve(name?: string): ServiceProfile {
+    const wanted = name ?? this.defaultName;
+    if (!wanted) {
+      throw new Error(
+        "No Azure Search service is configured. Set AZURE_SEARCH_ENDPOINT (and AZURE_SEARCH_API_KEY unless AZURE_SEARCH_AUTH_MODE=entra), or AZURE_SEARCH_PROFILES, as Worker secrets.",
+      );
+    }
+    const profile = this.envProfiles.get(wanted) ?? this.sessionProfiles().find((p) => p.name === wanted);
+    if (!profile) {
+      throw new Error(`Unknown service profile '${wanted}'. Available: ${this.list().map((p) => p.name).join(", ") || "(none)"}`);
+    }
+    return profile;
+  }
+
+  getClient(name?: string): AzureSearchClient {
+    const profile = this.resolve(name);
+    let client = this.clients.get(profile.name);
+    if (!client) {
+      const cache = this.cacheConfig.mode === "off" ? undefined : new ResponseCache(profile.endpoint, this.cacheConfig, this.sql);
+      client = new AzureSearchClient(profile.endpoint, this.credentialFor(profile), cache);
+      this.clients.set(profile.name, client);
+    }
+    return client;
+  }
+
+  /**
+   * API-key mode uses the profile's key; Entra mode uses the shared token, but only for https search
+   * service hosts and AZURE_SEARCH_ENTRA_HOSTS so the tenant token never reaches an arbitrary endpoint.
+   */
+  credentialFor(profile: Pick<ServiceProfile, "name" | "endpoint" | "apiKey">): string | CredentialProvider {
+    if (this.entraCredential) {
+      if (!this.mayReceiveEntraToken(profile.endpoint)) {
+        throw new Error(
+          `Refusing to send the Entra ID token to '${profile.endpoint}': only https search service hosts and hosts in AZURE_SEARCH_ENTRA_HOSTS are allowed`,
+        );
+      }
+      return this.entraCredential;
+    }
+    if (!profile.apiKey) throw new Error(`Service profile '${profile.name}' has no apiKey`);
+    return profile.apiKey;
+  }
+
+  private mayReceiveEntraToken(endpoint: string): boolean {
+    if (isSearchServiceEndpoint(endpoint)) return true;
+    try {
+      const url = new URL(endpoint);
+      return url.protocol === "https:" && this.entraHosts.has(url.hostname.toLowerCase());
+    } catch {
+      return false;
+    }
+  }
+
+  getAuthMode(): AuthMode {
+    return this.authMode;
+  }
+
+  list(): ServiceProfileSummary[] {
+    return [...this.envProfiles.values(), ...this.sessionProfiles()].map((p) => ({
+      name: p.name,
+      endpoint: p.endpoint,
+      source: p.source,
+      auth: this.authMode,
+      isDefault: p.name === this.defaultName,
+    }));
+  }
+
+  /** Add or replace a session profile. Env profiles cannot be overridden. */
+  saveSessionProfile(name: string, endpoint: string, apiKey?: string): ServiceProfileSummary {
+    if (!this.sql) throw new Error("Session profiles are unavailable: Durable Object SQLite storage is not configured");
+    if (!PROFILE_NAME_PATTERN.test(name)) throw new Error(`Invalid profile name '${name}'`);
+    if (!isSearchServiceEndpoint(endpoint)) {
+      throw new Error(`Endpoint '${endpoint}' must be https://<service>.search.windows.net (or a sovereign cloud search host)`);
+    }
+    if (this.envProfiles.has(name)) throw new Error(`Profile '${name}' is configured in the environment and cannot be replaced`);
+    if (!apiKey && this.authMode === "apiKey") throw new Error("apiKey is required unless AZURE_SEARCH_AUTH_MODE=entra");
+
+    this.ensureTable();
+    this.sql`INSERT OR REPLACE INTO service_profiles (name, endpoint, api_key, created_at)
+      VALUES (${name}, ${endpoint.replace(/\/$/, "")}, ${apiKey ?? null}, ${new Date().toISOString()})`;
+    this.clients.delete(name);
+    return { name, endpoint: endpoint.replace(/\/$/, ""), source: "session", auth: this.authMode, isDefault: false };
+  }
+
+  removeSessionProfile(name: string): boolean {
+    if (this.envProfiles.has(name)) throw new Error(`Profile '${name}' is configured in the environment and cannot be removed`);
+    if (!this.sql) return false;
+    this.ensureTable();
+    const existing = this.sql<{ name: string }>`SELECT name FROM service_profiles WHERE name = ${name}`;
+    if (existing.length === 0) return false;
+    this.sql`DELETE FROM service_profiles WHERE name = ${name}`;
+    this.clients.delete(name);
+    return true;
+  }
+}
+
+const isZodShape = (v: unknown): v is Record<string, z.ZodTypeAny> =>
+  !!v && typeof v === "object" && !Array.isArray(v) && Object.values(v).every((f) => f instanceof z.ZodType);
+
+/**
+ * Wrap `server.tool` so every tool registered afterwards accepts an optional `service` argument.
+ * The argument is removed before the handler runs and the handler executes in that profile's scope.
+ * Call before registering tools.
+ */
+export function installServiceArgument(server: any) {
+  const register = server.tool.bind(server);
+  const serviceArg = z
+    .string()
+    .regex(PROFILE_NAME_PATTERN)
+    .optional()
+    .describe("Service profile to run against (see listServiceProfiles). Defaults to the default profile.");
+
+  server.tool = (...args: any[]) => {
+    // Tools are registered as (name, description?, shape?, hints?, handler) and occasionally with hints last
+    const shapeIndex = args.findIndex((a, i) => i > 0 && typeof a !== "function" && isZodShape(a));
+    const handlerIndex = args.findIndex((a) => typeof a === "function");
+    if (handlerIndex === -1) return register(...args);
+
+    const handler = args[handlerIndex];
+    const wrapped = [...args];
+    if (shapeIndex !== -1 && !("service" in args[shapeIndex])) {
+      wrapped[shapeIndex] = { ...args[shapeIndex], service: serviceArg };
+      wrapped[handlerIndex] = (params: any, extra: any) => {
+        const { service, ...rest } = params ?? {};
+        return runWithService(service, () => handler(rest, extra));
+      };
+    }
+    return register(...wrapped);
+  };
+}
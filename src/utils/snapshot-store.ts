@@ -0,0 +1,276 @@
+// src/utils/snapshot-store.ts
+/**
+ * Service configuration snapshots persisted in the Durable Object's SQLite storage.
+ * A snapshot is a versioned JSON bundle of every definition on the service, with secrets redacted.
+ */
+import type { AzureSearchClient } from "../azure-search-client";
+import type { SqlExecutor } from "../types";
+import { AZURE_SEARCH_API_VERSION } from "../constants";
+import { redactSecrets, type ResourceBundle } from "./resource-plan";
+
+export const SNAPSHOT_FORMAT_VERSION = 1;
+export const REDACTED = "<redacted>";
+
+export interface ServiceSnapshot {
+  formatVersion: number;
+  apiVersion: string;
+  capturedAt: string;
+  endpoint: string;
+  label?: string;
+  resources: Required<ResourceBundle>;
+  // "<bundleKey>/<name>:<path>" for every redacted value, e.g. "dataSources/hotels-ds:credentials.connectionString"
+  redactions: string[];
+}
+
+export interface SnapshotSummary {
+  id: string;
+  label: string | null;
+  endpoint: string;
+  capturedAt: string;
+  formatVersion: number;
+  counts: Record<string, number>;
+}
+
+type SnapshotRow = {
+  id: string;
+  label: string | null;
+  endpoint: string;
+  captured_at: string;
+  format_version: number;
+  api_version: string;
+  counts: string;
+  redactions: string;
+};
+
+// Durable Object SQLite caps a single value at 2 MB. Each definition is stored in its own rows, split into
+// chunks of at most 500k UTF-16 code units (at most 1.5 MB of UTF-8), so no snapshot size hits the cap.
+const CHUNK_LENGTH = 500_000;
+
+/** Split text into chunks, never between the two halves of a surrogate pair. */
+function chunkText(text: string, length = CHUNK_LENGTH): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + length, text.length);
+    const last = text.charCodeAt(end - 1);
+    if (end < text.length && last >= 0xd800 && last <= 0xdbff) end -= 1;
+    chunks.push(text.slice(start, end));
+    start = end;
+  }
+  return chunks.length > 0 ? chunks : [""];
+}
+
+const listValue = (r: unknown): any[] => (Array.isArray(r) ? r : Array.isArray((r as any)?.value) ? (r as any).value : []);
+
+// ETags and OData metadata are specific to the source service and are never restored
+function cleanDefinition(def: any): any {
+  const { "@odata.etag": _etag, "@odata.context": _ctx, ...rest } = def ?? {};
+  return rest;
+}
+
+/** Read every definition from the service and redact secrets. */
+export async function captureSnapshot(client: AzureSearchClient, label?: string): Promise<ServiceSnapshot> {
+  const [indexes, dataSources, skillsets, indexers, synonymMaps, aliases, knowledgeSources, knowledgeAgents] = await Promise.all([
+    client.listIndexes(),
+    client.listDataSources(),
+    client.listSkillsets(),
+    client.listIndexers(),
+    client.listSynonymMaps(),
+    client.listAliases(),
+    client.listKnowledgeSources(true),
+    client.listKnowledgeAgents(true),
+  ]);
+
+  const raw: Required<ResourceBundle> = {
+    synonymMaps: listValue(synonymMaps),
+    dataSources: listValue(dataSources),
+    indexes: listValue(indexes),
+    skillsets: listValue(skillsets),
+    indexers: listValue(indexers),
+    knowledgeSources: listValue(knowledgeSources),
+    aliases: listValue(aliases),
+    knowledgeAgents: listValue(knowledgeAgents),
+  };
+
+  const redactions: string[] = [];
+  const resources = {} as Required<ResourceBundle>;
+  for (const [key, items] of Object.entries(raw) as Array<[keyof ResourceBundle, any[]]>) {
+    resources[key] = items.map((item) => {
+      const def = cleanDefinition(item);
+      // GET never returns data source connection strings; record them so restore asks for one
+      if (key === "dataSources") {
+        def.credentials = { ...(def.credentials || {}), connectionString: REDACTED };
+      }
+      const { value, paths } = redactSecrets(def, REDACTED);
+      redactions.push(...paths.map((p) => `${key}/${def.name}:${p}`));
+      return value;
+    });
+  }
+
+  return {
+    formatVersion: SNAPSHOT_FORMAT_VERSION,
+    apiVersion: AZURE_SEARCH_API_VERSION,
+    capturedAt: new Date().toISOString(),
+    endpoint: client.getEndpoint(),
+    label,
+    resources,
+    redactions,
+  };
+}
+
+/**
+ * Put secrets back into a snapshot bundle. `secrets` is keyed like `redactions`
+ * ("<bundleKey>/<name>:<path>"). Returns the bundle and any redactions left unfilled.
+ */
+export function resupplySecrets(snapshot: ServiceSnapshot, secrets: Record<string, string>): { bundle: ResourceBundle; missing: string[] } {
+  const bundle = JSON.parse(JSON.stringify(snapshot.resources)) as Required<ResourceBundle>;
+  const missing: string[] = [];
+
+  for (const entry of snapshot.redactions) {
+    const match = /^([^/]+)\/([^:]+):(.+)$/.exec(entry);
+    if (!match) continue;
+    const [, key, name, path] = match;
+    const def = (bundle as any)[key]?.find((d: any) => d?.name === name);
+    if (!def) continue;
+
+    // Walk "a.b[name].c" paths; array segments are addressed by item name or position
+    const segments = path.split(".").flatMap((seg) => {
+      const m = /^([^[]+)\[(.+)\]$/.exec(seg);
+      return m ? [m[1], { item: m[2] }] : [seg];
+    });
+    let parent: any = def;
+    for (let i = 0; i < segments.length - 1 && parent; i++) {
+      const seg = segments[i];
+      if (typeof seg === "string") parent = parent[seg];
+      else parent = Array.isArray(parent) ? parent.find((x: any, idx: number) => x?.name === seg.item || String(idx) === seg.item) : undefined;
+    }
+    const leaf = segments[segments.length - 1] as string;
+    if (!parent || typeof leaf !== "string") continue;
+
+    if (secrets[entry] !== undefined) {
+      parent[leaf] = secrets[entry];
+    } else {
+      missing.push(entry);
+      delete parent[leaf];
+    }
+  }
+
+  return { bundle, missing };
+}
+
+/**
+ * Snapshot headers live in `snapshots`; each definition is stored separately in `snapshot_resources`,
+ * one row per chunk, keyed by bundle key and position in the bundle.
+ */
+export class SnapshotStore {
+  private initialized = false;
+
+  constructor(private readonly sql: SqlExecutor) {}
+
+  private ensureTable() {
+    if (this.initialized) return;
+    this.sql`CREATE TABLE IF NOT EXISTS snapshots (
+      id TEXT PRIMARY KEY,
+      label TEXT,
+      endpoint TEXT NOT NULL,
+      captured_at TEXT NOT NULL,
+      format_version INTEGER NOT NULL,
+      api_version TEXT NOT NULL,
+      counts TEXT NOT NULL,
+      redactions TEXT NOT NULL
+    )`;
+    this.sql`CREATE TABLE IF NOT EXISTS snapshot_resources (
+      snapshot_id TEXT NOT NULL,
+      bundle_key TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      chunk INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      definition TEXT NOT NULL,
+      PRIMARY KEY (snapshot_id, bundle_key, position, chunk)
+    )`;
+    this.initialized = true;
+  }
+
+  save(snapshot: ServiceSnapshot): SnapshotSummary {
+    this.ensureTable();
+    const id = crypto.randomUUID();
+    const counts = Object.fromEntries(Object.entries(snapshot.resources).map(([k, v]) => [k, v.length]));
+    this.sql`INSERT INTO snapshots (id, label, endpoint, captured_at, format_version, api_version, counts, redactions)
+      VALUES (${id}, ${snapshot.label ?? null}, ${snapshot.endpoint}, ${snapshot.capturedAt}, ${snapshot.formatVersion},
+              ${snapshot.apiVersion}, ${JSON.stringify(counts)}, ${JSON.stringify(snapshot.redactions)})`;
+    for (const [key, items] of Object.entries(snapshot.resources)) {
+      items.forEach((def: any, position: number) => {
+        chunkText(JSON.stringify(def)).forEach((text, chunk) => {
+          this.sql`INSERT INTO snapshot_resources (snapshot_id, bundle_key, position, chunk, name, definition)
+            VALUES (${id}, ${key}, ${position}, ${chunk}, ${String(def?.name ?? "")}, ${text})`;
+        });
+      });
+    }
+    return {
+      id,
+      label: snapshot.label ?? null,
+      endpoint: snapshot.endpoint,
+      capturedAt: snapshot.capturedAt,
+      formatVersion: snapshot.formatVersion,
+      counts,
+    };
+  }
+
+  list(): SnapshotSummary[] {
+    this.ensureTable();
+    const rows = this.sql<SnapshotRow>`SELECT * FROM snapshots ORDER BY captured_at DESC`;
+    return rows.map((r) => ({
+      id: r.id,
+      label: r.label,
+      endpoint: r.endpoint,
+      capturedAt: r.captured_at,
+      formatVersion: r.format_version,
+      counts: JSON.parse(r.counts),
+    }));
+  }
+
+  get(id: string): ServiceSnapshot | null {
+    this.ensureTable();
+    const row = this.sql<SnapshotRow>`SELECT * FROM snapshots WHERE id = ${id}`[0];
+    if (!row) return null;
+    if (row.format_version > SNAPSHOT_FORMAT_VERSION) {
+      throw new Error(`Snapshot format ${row.format_version} is newer than supported version ${SNAPSHOT_FORMAT_VERSION}`);
+    }
+
+    const resources = Object.fromEntries(Object.keys(JSON.parse(row.counts)).map((k) => [k, [] as any[]])) as Required<ResourceBundle>;
+    const chunks = this.sql<{ bundle_key: string; position: number; definition: string }>`SELECT bundle_key, position, definition
+      FROM snapshot_resources WHERE snapshot_id = ${id} ORDER BY bundle_key, position, chunk`;
+    let pending: { key: string; position: number; text: string } | null = null;
+    const flush = () => {
+      if (pending) ((resources as any)[pending.key] ??= []).push(JSON.parse(pending.text));
+    };
+    for (const c of chunks) {
+      if (pending && pending.key === c.bundle_key && pending.position === c.position) {
+        pending.text += c.definition;
+        continue;
+      }
+      flush();
+      pending = { key: c.bundle_key, position: c.position, text: c.definition };
+    }
+    flush();
+
+    return {
+      formatVersion: row.format_version,
+      apiVersion: row.api_version,
+      capturedAt: row.captured_at,
+      endpoint: row.endpoint,
+      label: row.label ?? undefined,
+      resources,
+      redactions: JSON.parse(row.redactions),
+    };
+  }
+
+  delete(id: string): boolean {
+    this.ensureTable();
+    const existing = this.sql<{ id: string }>`SELECT id FROM snapshots WHERE id = ${id}`;
+    if (existing.length === 0) return false;
+    this.sql`DELETE FROM snapshot_resources WHERE snapshot_id = ${id}`;
+    this.sql`DELETE FROM snapshots WHERE id = ${id}`;
+    return true;
+  }
+}
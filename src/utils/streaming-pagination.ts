@@ -98,3 +98,47 @@ export async function streamPaginate<T>(
 
   return response;
 }
+
+/**
+ * Keyset pagination for walking a whole index in key order.
+ * Unlike skip-based paging this has no depth limit: the cursor records the last key returned and
+ * the next page is fetched with a key-range filter. Pages can also be capped by size so each one
+ * fits in a single response.
+ * @param fetchFn Function that fetches up to `top` items with keys strictly greater than `afterKey`
+ * @param getKey Extracts the (sortable) key of an item
+ */
+export async function keysetPaginate<T>(
+  fetchFn: (afterKey: string | undefined, top: number) => Promise<T[]>,
+  getKey: (item: T) => string,
+  options: PaginationOptions & { maxBytes?: number; sizeOf?: (item: T) => number }
+): Promise<PaginatedResponse<T>> {
+  const { pageSize, cursor, maxBytes, sizeOf } = options;
+  const { afterKey } = decodeCursor(cursor);
+
+  if (afterKey !== undefined && typeof afterKey !== "string") {
+    throw new Error("Invalid cursor: expected a key position");
+  }
+
+  const fetched = await fetchFn(afterKey, pageSize);
+
+  // Trim to the byte budget, always keeping at least one item so the walk makes progress
+  let items = fetched;
+  if (maxBytes !== undefined && sizeOf) {
+    let used = 0;
+    let end = 0;
+    for (; end < fetched.length; end++) {
+      used += sizeOf(fetched[end]);
+      if (used > maxBytes && end > 0) break;
+    }
+    items = fetched.slice(0, end);
+  }
+
+  const hasMore = items.length < fetched.length || fetched.length === pageSize;
+  const response: PaginatedResponse<T> = { items, hasMore };
+
+  if (hasMore && items.length > 0) {
+    response.nextCursor = encodeCursor({ afterKey: getKey(items[items.length - 1]) });
+  }
+
+  return response;
+}
@@ -0,0 +1,73 @@
+// src/utils/tool-scopes.ts
+/**
+ * Map tools to OAuth scopes from their getToolHints() metadata and enforce them.
+ * Scopes are hierarchical: search:admin includes search:write, which includes search:read.
+ *  - readOnlyHint    -> search:read
+ *  - destructiveHint -> search:admin
+ *  - anything else   -> search:write
+ */
+import { formatToolError } from "./response";
+
+export const SEARCH_SCOPES = ["search:read", "search:write", "search:admin"] as const;
+export type SearchScope = (typeof SEARCH_SCOPES)[number];
+
+const IMPLIED: Record<SearchScope, SearchScope[]> = {
+  "search:read": ["search:read"],
+  "search:write": ["search:read", "search:write"],
+  "search:admin": ["search:read", "search:write", "search:admin"],
+};
+
+export function isSearchScope(value: string): value is SearchScope {
+  return (SEARCH_SCOPES as readonly string[]).includes(value);
+}
+
+/** Expand granted scopes with the scopes they imply. */
+export function effectiveScopes(granted: readonly string[]): Set<SearchScope> {
+  const out = new Set<SearchScope>();
+  for (const s of granted) if (isSearchScope(s)) IMPLIED[s].forEach((i) => out.add(i));
+  return out;
+}
+
+export function requiredScopeForHints(hints: { readOnlyHint?: boolean; destructiveHint?: boolean } | undefined): SearchScope {
+  if (hints?.readOnlyHint) return "search:read";
+  if (hints?.destructiveHint) return "search:admin";
+  return "search:write";
+}
+
+const isHints = (v: unknown): v is { readOnlyHint?: boolean; destructiveHint?: boolean } =>
+  !!v && typeof v === "object" && ("readOnlyHint" in v || "destructiveHint" in v);
+
+/**
+ * Wrap `server.tool` so tools the caller's scopes do not cover are not registered, and every call
+ * re-checks the scopes current at call time (props can be updated by a later request).
+ * `getScopes` returns null when authorization is disabled.
+ */
+export function installScopeGuard(server: any, getScopes: () => readonly string[] | null) {
+  const register = server.tool.bind(server);
+
+  server.tool = (...args: any[]) => {
+    const name = args[0];
+    const required = requiredScopeForHints(args.find(isHints));
+    const handlerIndex = args.findIndex((a) => typeof a === "function");
+
+    const scopes = getScopes();
+    if (scopes && !effectiveScopes(scopes).has(required)) return undefined;
+    if (handlerIndex === -1) return register(...args);
+
+    const handler = args[handlerIndex];
+    const wrapped = [...args];
+    wrapped[handlerIndex] = (...callArgs: any[]) => {
+      const current = getScopes();
+      if (current && !effectiveScopes(current).has(required)) {
+        return formatToolError({
+          ok: false,
+          code: "ERR_AUTH",
+          message: `Tool '${name}' requires scope '${required}'`,
+          recommendation: `Re-authorize with the '${required}' scope`,
+        });
+      }
+      return handler(...callArgs);
+    };
+    return register(...wrapped);
+  };
+}
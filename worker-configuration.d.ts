@@ -9,6 +9,7 @@ declare namespace Cloudflare {
 		AZURE_OPENAI_API_KEY: string;
 		AZURE_OPENAI_DEPLOYMENT: string;
 		MCP_OBJECT: DurableObjectNamespace<import("./src/index").AzureSearchMCP>;
+		AUDIT_LOG: DurableObjectNamespace<import("./src/index").AuditLog>;
 	}
 }
 interface Env extends Cloudflare.Env {}